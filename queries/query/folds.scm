@@ -0,0 +1,5 @@
+[
+  (named_node)
+  (grouping)
+  (list)
+] @fold
@@ -0,0 +1,32 @@
+; Highlighting for Tree-sitter query files,
+; using the semantic token types of VSCode directly.
+
+(comment) @comment
+
+(string) @string
+
+(escape_sequence) @regexp
+
+(named_node
+  name: (identifier) @type)
+
+(anonymous_node) @string
+
+(field_definition
+  name: (identifier) @property)
+
+(capture) @variable
+
+(predicate
+  name: (identifier) @function)
+
+(quantifier) @operator
+
+[
+  "."
+  "!"
+] @operator
+
+((parameters
+  (identifier) @number)
+  (#match? @number "^[-+]?[0-9]+(\\.[0-9]+)?$"))
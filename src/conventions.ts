@@ -0,0 +1,165 @@
+import type { SemanticTokenTypeMapping } from "./language";
+
+export type CaptureConvention = "nvim" | "helix" | "tree-sitter";
+
+export const CAPTURE_CONVENTIONS: CaptureConvention[] = [
+  "nvim",
+  "helix",
+  "tree-sitter",
+];
+
+// Only captures, that are not already split into the right type and modifiers, need an entry.
+// A capture without an entry uses the entry of its longest prefix, e.g. `@function.method.call`.
+
+// https://github.com/nvim-treesitter/nvim-treesitter/blob/master/CONTRIBUTING.md#highlights
+const NVIM: Record<string, SemanticTokenTypeMapping> = {
+  "variable.parameter": { targetTokenType: "parameter" },
+  "variable.parameter.builtin": {
+    targetTokenType: "parameter",
+    targetTokenModifiers: ["builtin"],
+  },
+  "variable.member": { targetTokenType: "property" },
+  "constant.macro": { targetTokenType: "macro" },
+  "string.documentation": {
+    targetTokenType: "string",
+    targetTokenModifiers: ["documentation"],
+  },
+  "string.regexp": { targetTokenType: "regexp" },
+  "string.special.symbol": { targetTokenType: "enumMember" },
+  "string.special.url": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["link"],
+  },
+  "type.definition": {
+    targetTokenType: "type",
+    targetTokenModifiers: ["declaration"],
+  },
+  "function.macro": { targetTokenType: "macro" },
+  "function.method": { targetTokenType: "method" },
+  "keyword.coroutine": {
+    targetTokenType: "keyword",
+    targetTokenModifiers: ["async"],
+  },
+  "keyword.conditional.ternary": { targetTokenType: "operator" },
+  "keyword.directive": { targetTokenType: "macro" },
+  "comment.documentation": {
+    targetTokenType: "comment",
+    targetTokenModifiers: ["documentation"],
+  },
+  "markup.heading": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["heading"],
+  },
+  "markup.link": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["link"],
+  },
+  "markup.raw": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["raw"],
+  },
+  "markup.list": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["list"],
+  },
+};
+
+// https://docs.helix-editor.com/themes.html#syntax-highlighting
+const HELIX: Record<string, SemanticTokenTypeMapping> = {
+  "type.parameter": { targetTokenType: "typeParameter" },
+  "type.enum": { targetTokenType: "enum" },
+  "type.enum.variant": { targetTokenType: "enumMember" },
+  "constant.builtin.boolean": { targetTokenType: "boolean" },
+  "constant.character": { targetTokenType: "character" },
+  "constant.character.escape": {
+    targetTokenType: "string",
+    targetTokenModifiers: ["escape"],
+  },
+  "constant.numeric": { targetTokenType: "number" },
+  "string.regexp": { targetTokenType: "regexp" },
+  "string.special.url": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["link"],
+  },
+  "string.special.symbol": { targetTokenType: "enumMember" },
+  "comment.block.documentation": {
+    targetTokenType: "comment",
+    targetTokenModifiers: ["documentation"],
+  },
+  "comment.line.documentation": {
+    targetTokenType: "comment",
+    targetTokenModifiers: ["documentation"],
+  },
+  "variable.parameter": { targetTokenType: "parameter" },
+  "variable.other.member": { targetTokenType: "property" },
+  "keyword.directive": { targetTokenType: "macro" },
+  "function.method": { targetTokenType: "method" },
+  "function.macro": { targetTokenType: "macro" },
+  "function.special": { targetTokenType: "macro" },
+  "markup.heading": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["heading"],
+  },
+  "markup.list": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["list"],
+  },
+  "markup.bold": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["strong"],
+  },
+  "markup.link": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["link"],
+  },
+  "markup.raw": {
+    targetTokenType: "markup",
+    targetTokenModifiers: ["raw"],
+  },
+};
+
+// the highlight names used by the grammars in the tree-sitter organization
+// https://tree-sitter.github.io/tree-sitter/3-syntax-highlighting.html#highlights
+const TREE_SITTER: Record<string, SemanticTokenTypeMapping> = {
+  "variable.parameter": { targetTokenType: "parameter" },
+  "variable.member": { targetTokenType: "property" },
+  "property.builtin": {
+    targetTokenType: "property",
+    targetTokenModifiers: ["builtin"],
+  },
+  "function.method": { targetTokenType: "method" },
+  "function.macro": { targetTokenType: "macro" },
+  "string.regexp": { targetTokenType: "regexp" },
+  escape: { targetTokenType: "string", targetTokenModifiers: ["escape"] },
+  "comment.documentation": {
+    targetTokenType: "comment",
+    targetTokenModifiers: ["documentation"],
+  },
+};
+
+const MAPPINGS: Record<
+  CaptureConvention,
+  Record<string, SemanticTokenTypeMapping>
+> = {
+  nvim: NVIM,
+  helix: HELIX,
+  "tree-sitter": TREE_SITTER,
+};
+
+/**
+ * Returns the mapping of the capture name or of its longest prefix in the given convention.
+ */
+export function getConventionMapping(
+  convention: CaptureConvention,
+  name: string,
+): SemanticTokenTypeMapping | undefined {
+  const mappings = MAPPINGS[convention];
+  const parts = name.split(".");
+  for (let length = parts.length; length > 0; length--) {
+    const prefix = parts.slice(0, length).join(".");
+    if (Object.prototype.hasOwnProperty.call(mappings, prefix)) {
+      return mappings[prefix];
+    }
+  }
+  return undefined;
+}
@@ -1,80 +1,83 @@
+import { createHash } from "crypto";
 import * as fs from "fs";
+import * as os from "os";
 import path from "path";
 import * as vscode from "vscode";
 import * as ts from "web-tree-sitter";
-import { Parser } from "web-tree-sitter";
+import { Worker } from "worker_threads";
+import { findGrammar, isQueryFiles } from "./grammar";
+import {
+  CharacterPair,
+  Config,
+  QUERY_KINDS,
+  QueryFiles,
+  QueryKind,
+  findConfig,
+  getIndentText,
+  getTokenModifiers,
+  getTokenTypes,
+  loadTsLanguage,
+  isInsideFolder,
+  mapCaptureName,
+  setCustomTokens,
+  setLogger,
+} from "./language";
+import { CAPTURE_CONVENTIONS } from "./conventions";
+import { checkPredicates } from "./predicates";
+import { diffTokenData } from "./tokens";
+import type {
+  Capture,
+  DelimiterGroup,
+  FoldingRange,
+  LineIndent,
+  LocalReferences,
+  OutlineSymbol,
+  Problem,
+  Range,
+  SyntaxNode,
+  Tag,
+  TextObject,
+  Token,
+  WorkerData,
+  WorkerMessage,
+  WorkerRequest,
+} from "./worker";
 
 const OUTPUT_CHANNEL = vscode.window.createOutputChannel("tree-sitter-vscode");
 
-// VSCode default token types and modifiers from:
-// https://code.visualstudio.com/api/language-extensions/semantic-highlight-guide#standard-token-types-and-modifiers
-const TOKEN_TYPES = [
-  "namespace",
-  "class",
-  "enum",
-  "interface",
-  "struct",
-  "typeParameter",
-  "type",
-  "parameter",
-  "variable",
-  "property",
-  "enumMember",
-  "decorator",
-  "event",
-  "function",
-  "method",
-  "macro",
-  "label",
-  "comment",
-  "string",
-  "keyword",
-  "number",
-  "regexp",
-  "operator",
-];
-const TOKEN_MODIFIERS = [
-  "declaration",
-  "definition",
-  "readonly",
-  "static",
-  "deprecated",
-  "abstract",
-  "async",
-  "modification",
-  "documentation",
-  "defaultLibrary",
-];
-const LEGEND = new vscode.SemanticTokensLegend(TOKEN_TYPES, TOKEN_MODIFIERS);
-
-type SemanticTokenTypeMapping = {
-  targetTokenType: string;
-  targetTokenModifiers?: string[];
+const SYNTAX_TREE_VIEW = "tree-sitter-vscode.syntaxTree";
+const SYNTAX_TREE_VISIBLE_CONTEXT = "tree-sitter-vscode.syntaxTreeVisible";
+const QUERY_LANGUAGE = "tree-sitter-query";
+// the number of colors for nested brackets, see `editorBracketHighlight.foreground1-6`
+const BRACKET_COLORS = 6;
+const SYMBOL_INDEX_FILE = "workspace-symbols.json";
+const SYMBOL_INDEX_VERSION = 2;
+
+type TokensResult = {
+  resultId: string;
+  data: Uint32Array;
 };
-type Config = {
-  lang: string;
-  parser: string;
-  highlights: string;
-  injections?: string;
-  folds?: string;
-  injectionOnly: boolean;
-  semanticTokenTypeMappings?: Record<string, SemanticTokenTypeMapping>;
+// the arguments of the text object commands, e.g. from a keybinding
+type TextObjectArgs = {
+  textObject?: string;
+  end?: boolean;
 };
-type Language = {
-  parser: Parser;
-  highlightQuery: ts.Query;
-  injectionQuery?: ts.Query;
-  foldQuery?: ts.Query;
-  semanticTokenTypeMappings?: Record<string, SemanticTokenTypeMapping>;
+type SyntaxTreeElement = {
+  node: SyntaxNode;
+  parent?: SyntaxTreeElement;
 };
-type Token = {
-  range: vscode.Range;
-  type: string;
-  modifiers: string[];
+type IndexedSymbol = {
+  name: string;
+  kind: string;
+  containerName?: string;
+  // start line, start character, end line, end character
+  range: [number, number, number, number];
 };
-type Injection = {
-  range: vscode.Range;
-  tokens: Token[];
+type IndexedFile = {
+  mtime: number;
+  // the hash of the parser and the tags query, the file was indexed with
+  hash: string;
+  symbols: IndexedSymbol[];
 };
 
 function log(messageOrCallback: string | (() => string), data?: unknown) {
@@ -100,72 +103,405 @@ function log(messageOrCallback: string | (() => string), data?: unknown) {
  * It reads the configuration and registers the semantic tokens provider.
  */
 export function activate(context: vscode.ExtensionContext) {
+  setLogger(log);
   log("Extension activated");
   // setup the semantic tokens provider
-  const rawConfigs = vscode.workspace
-    .getConfiguration("tree-sitter-vscode")
-    .get("languageConfigs");
-  const configs = parseConfigs(rawConfigs);
+  const configs = readConfigs();
+  const queryLanguageConfig = getQueryLanguageConfig(context.extensionPath);
+  if (
+    queryLanguageConfig !== undefined &&
+    !configs.some((config) => config.lang === QUERY_LANGUAGE)
+  ) {
+    configs.push(queryLanguageConfig);
+  }
   log(() => {
     return `Configured languages: ${configs.map((c) => c.lang).join(", ")}`;
   });
+  setCustomTokens(
+    vscode.workspace
+      .getConfiguration("tree-sitter-vscode")
+      .get<string[]>("tokenTypes", []),
+    vscode.workspace
+      .getConfiguration("tree-sitter-vscode")
+      .get<string[]>("tokenModifiers", []),
+  );
+  const legend = new vscode.SemanticTokensLegend(
+    getTokenTypes(),
+    getTokenModifiers(),
+  );
   const cache = new LanguageCache(configs);
-  const languageMap = configs
-    .filter((config) => !config.injectionOnly)
-    .map((config) => {
-      return { language: config.lang };
-    });
+  const timeout = vscode.workspace
+    .getConfiguration("tree-sitter-vscode")
+    .get("timeout", 10000);
+  const parserWorker = new ParserWorker(
+    path.join(context.extensionPath, "dist", "worker.js"),
+    configs,
+    timeout,
+  );
+  context.subscriptions.push(parserWorker);
+  const languageMap = toDocumentSelector(
+    configs.filter((config) => !config.injectionOnly),
+  );
+  const semanticTokensProvider = new SemanticTokensProvider(
+    parserWorker,
+    legend,
+  );
   const provider = vscode.languages.registerDocumentSemanticTokensProvider(
     languageMap,
-    new SemanticTokensProvider(cache),
-    LEGEND,
+    semanticTokensProvider,
+    legend,
   );
   context.subscriptions.push(provider);
+  const rangeProvider =
+    vscode.languages.registerDocumentRangeSemanticTokensProvider(
+      languageMap,
+      semanticTokensProvider,
+      legend,
+    );
+  context.subscriptions.push(rangeProvider);
 
   // setup the selection range provider
   const selectionProvider = vscode.languages.registerSelectionRangeProvider(
     languageMap,
-    new SelectionRangeProvider(cache),
+    new SelectionRangeProvider(parserWorker),
   );
   context.subscriptions.push(selectionProvider);
 
   // setup the folding range provider
   let foldProvider: vscode.Disposable | undefined;
+  const foldingRangeProvider = new FoldingRangeProvider(parserWorker);
   const foldConfigs = configs.filter(
     (config) => !config.injectionOnly && config.folds !== undefined,
   );
   if (foldConfigs.length > 0) {
-    const foldLanguageMap = foldConfigs.map((config) => {
-      return { language: config.lang };
-    });
+    const foldLanguageMap = toDocumentSelector(foldConfigs);
     foldProvider = vscode.languages.registerFoldingRangeProvider(
       foldLanguageMap,
-      new FoldingRangeProvider(cache),
+      foldingRangeProvider,
     );
     context.subscriptions.push(foldProvider);
   }
 
-  // setup incremental parsing listeners
+  // setup the document symbol provider
+  let symbolProvider: vscode.Disposable | undefined;
+  const tagsConfigs = configs.filter(
+    (config) => !config.injectionOnly && config.tags !== undefined,
+  );
+  const symbolConfigs = configs.filter(
+    (config) =>
+      !config.injectionOnly &&
+      (config.tags !== undefined || config.context !== undefined),
+  );
+  if (symbolConfigs.length > 0) {
+    const symbolLanguageMap = toDocumentSelector(symbolConfigs);
+    symbolProvider = vscode.languages.registerDocumentSymbolProvider(
+      symbolLanguageMap,
+      new DocumentSymbolProvider(parserWorker),
+    );
+    context.subscriptions.push(symbolProvider);
+  }
+
+  // setup the workspace symbol provider
+  let workspaceSymbolProvider: WorkspaceSymbolProvider | undefined;
+  let workspaceSymbolRegistration: vscode.Disposable | undefined;
+  if (tagsConfigs.length > 0) {
+    workspaceSymbolProvider = new WorkspaceSymbolProvider(
+      cache,
+      parserWorker,
+      context.storageUri,
+    );
+    workspaceSymbolRegistration =
+      vscode.languages.registerWorkspaceSymbolProvider(workspaceSymbolProvider);
+    workspaceSymbolProvider
+      .initialize(tagsConfigs)
+      .catch((error) => log(`Failed to index workspace symbols: ${error}`));
+    context.subscriptions.push(
+      workspaceSymbolProvider,
+      workspaceSymbolRegistration,
+    );
+  }
+
+  // setup the providers based on local variable resolution
+  const localsProviders: vscode.Disposable[] = [];
+  const localsConfigs = configs.filter(
+    (config) => !config.injectionOnly && config.locals !== undefined,
+  );
+  if (localsConfigs.length > 0) {
+    const localsLanguageMap = toDocumentSelector(localsConfigs);
+    const localsProvider = new LocalsProvider(parserWorker);
+    localsProviders.push(
+      vscode.languages.registerDefinitionProvider(
+        localsLanguageMap,
+        localsProvider,
+      ),
+      vscode.languages.registerReferenceProvider(
+        localsLanguageMap,
+        localsProvider,
+      ),
+      vscode.languages.registerDocumentHighlightProvider(
+        localsLanguageMap,
+        localsProvider,
+      ),
+    );
+    context.subscriptions.push(...localsProviders);
+  }
+
+  // setup the diagnostics for syntax errors and diagnostic queries
+  const diagnostics = new DocumentDiagnostics(
+    cache,
+    parserWorker,
+    configs.filter(
+      (config) =>
+        !config.injectionOnly &&
+        (config.syntaxErrors || config.diagnostics !== undefined),
+    ),
+  );
+  vscode.workspace.textDocuments.forEach((document) =>
+    diagnostics.update(document),
+  );
+  context.subscriptions.push(diagnostics);
+
+  // setup the indentation
+  let indentProvider: vscode.Disposable | undefined;
+  const indentationProvider = new IndentationProvider(cache, parserWorker);
+  const indentConfigs = configs.filter(
+    (config) => !config.injectionOnly && config.indents !== undefined,
+  );
+  if (indentConfigs.length > 0) {
+    const indentLanguageMap = toDocumentSelector(indentConfigs);
+    indentProvider = vscode.languages.registerOnTypeFormattingEditProvider(
+      indentLanguageMap,
+      indentationProvider,
+      "\n",
+      "}",
+      "]",
+      ")",
+    );
+    context.subscriptions.push(indentProvider);
+  }
+  const reindentLines = vscode.commands.registerCommand(
+    "tree-sitter-vscode.reindentLines",
+    () => indentationProvider.reindentLines(),
+  );
+  context.subscriptions.push(reindentLines);
+
+  // setup the text object commands
+  const textObjects = new TextObjectCommands(cache, parserWorker);
+  const textObjectCommands = [
+    vscode.commands.registerCommand(
+      "tree-sitter-vscode.goToNextTextObject",
+      (args?: TextObjectArgs) => textObjects.goTo(true, args),
+    ),
+    vscode.commands.registerCommand(
+      "tree-sitter-vscode.goToPreviousTextObject",
+      (args?: TextObjectArgs) => textObjects.goTo(false, args),
+    ),
+    vscode.commands.registerCommand(
+      "tree-sitter-vscode.selectTextObject",
+      (args?: TextObjectArgs) => textObjects.select(args),
+    ),
+    vscode.commands.registerCommand(
+      "tree-sitter-vscode.swapWithNextTextObject",
+      (args?: TextObjectArgs) => textObjects.swap(true, args),
+    ),
+    vscode.commands.registerCommand(
+      "tree-sitter-vscode.swapWithPreviousTextObject",
+      (args?: TextObjectArgs) => textObjects.swap(false, args),
+    ),
+    vscode.commands.registerCommand("tree-sitter-vscode.goToParentNode", () =>
+      textObjects.goToParent(),
+    ),
+  ];
+  context.subscriptions.push(...textObjectCommands);
+
+  // setup the bracket highlighting
+  const brackets = new BracketHighlighter(
+    cache,
+    parserWorker,
+    configs.filter(
+      (config) => !config.injectionOnly && config.rainbow !== undefined,
+    ),
+  );
+  vscode.workspace.textDocuments.forEach((document) =>
+    brackets.update(document),
+  );
+  context.subscriptions.push(brackets);
+  const jumpToBracket = vscode.commands.registerCommand(
+    "tree-sitter-vscode.jumpToMatchingBracket",
+    () => brackets.jumpToMatchingBracket(),
+  );
+  context.subscriptions.push(jumpToBracket);
+
+  // setup the syntax tree inspector
+  const syntaxTree = new SyntaxTreeProvider(cache, parserWorker);
+  context.subscriptions.push(syntaxTree);
+  const inspect = vscode.commands.registerCommand(
+    "tree-sitter-vscode.inspectSyntaxTree",
+    () => syntaxTree.show(),
+  );
+  context.subscriptions.push(inspect);
+  const toggleAnonymous = vscode.commands.registerCommand(
+    "tree-sitter-vscode.toggleAnonymousNodes",
+    () => syntaxTree.toggleAnonymousNodes(),
+  );
+  context.subscriptions.push(toggleAnonymous);
+
+  // setup the query playground
+  const playground = new QueryPlayground(cache, parserWorker);
+  context.subscriptions.push(playground);
+  const editQuery = vscode.commands.registerCommand(
+    "tree-sitter-vscode.editQuery",
+    () => playground.open(),
+  );
+  context.subscriptions.push(editQuery);
+
+  // setup the support for query files
+  const querySupport = new QueryLanguageSupport(cache, parserWorker);
+  vscode.workspace.textDocuments.forEach((document) =>
+    querySupport.open(document),
+  );
+  context.subscriptions.push(querySupport);
+  const queryCompletion = vscode.languages.registerCompletionItemProvider(
+    { language: QUERY_LANGUAGE },
+    querySupport,
+    "(",
+    "@",
+  );
+  context.subscriptions.push(queryCompletion);
+
+  // setup the file associations and language configurations
+  const associations = new LanguageAssociations(
+    configs.filter((config) => !config.injectionOnly),
+  );
+  vscode.workspace.textDocuments.forEach((document) =>
+    associations
+      .open(document)
+      .catch((error) => log(`Failed to associate a language: ${error}`)),
+  );
+  context.subscriptions.push(associations);
+
+  // setup hot reloading of parsers and query files
+  const fileWatcher = new LanguageFileWatcher(configs, (config) => {
+    const lang = config.lang;
+    Promise.all([
+      cache.reloadLanguage(config),
+      parserWorker.reloadLanguage(config),
+    ])
+      .then(() => {
+        workspaceSymbolProvider
+          ?.reindex(config)
+          .catch((error) =>
+            log(`Failed to index workspace symbols again: ${error}`),
+          );
+        semanticTokensProvider.refresh();
+        foldingRangeProvider.refresh();
+        vscode.workspace.textDocuments.forEach((document) => {
+          diagnostics.update(document);
+          brackets.update(document);
+          querySupport.update(document);
+        });
+      })
+      .catch((error) => {
+        log(`Failed to reload ${lang}: ${error}`);
+        vscode.window.showErrorMessage(
+          `tree-sitter-vscode: Failed to reload ${lang}: ${error}`,
+        );
+      });
+  });
+  context.subscriptions.push(fileWatcher);
+
+  // setup document listeners
+  const onDidOpen = vscode.workspace.onDidOpenTextDocument((document) => {
+    diagnostics.update(document);
+    brackets.update(document);
+    querySupport.open(document);
+    associations
+      .open(document)
+      .catch((error) => log(`Failed to associate a language: ${error}`));
+  });
+  context.subscriptions.push(onDidOpen);
   const onDidChange = vscode.workspace.onDidChangeTextDocument((event) => {
-    cache.applyEdits(event);
+    parserWorker.applyEdits(event);
+    diagnostics.update(event.document);
+    brackets.update(event.document);
+    syntaxTree.update(event.document);
+    playground.update(event.document);
+    querySupport.update(event.document);
   });
   context.subscriptions.push(onDidChange);
   const onDidClose = vscode.workspace.onDidCloseTextDocument((document) => {
-    cache.removeDocument(document.uri);
+    parserWorker.removeDocument(document.uri);
+    semanticTokensProvider.removeDocument(document.uri);
+    diagnostics.remove(document.uri);
+    brackets.remove(document.uri);
+    querySupport.remove(document.uri);
   });
   context.subscriptions.push(onDidClose);
 
+  // reload when the configs, the custom tokens or the workspace folders change,
+  // unless the changed configs are invalid, e.g. while they are being edited
+  const reloadChanged = () => {
+    try {
+      readConfigs();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `tree-sitter-vscode: Failed to read the language configs: ${error}`,
+      );
+      return;
+    }
+    vscode.commands.executeCommand("tree-sitter-vscode.reload");
+  };
+  const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration(
+    (event) => {
+      if (
+        event.affectsConfiguration("tree-sitter-vscode.languageConfigs") ||
+        event.affectsConfiguration("tree-sitter-vscode.tokenTypes") ||
+        event.affectsConfiguration("tree-sitter-vscode.tokenModifiers")
+      ) {
+        reloadChanged();
+      }
+    },
+  );
+  context.subscriptions.push(onDidChangeConfiguration);
+  const onDidChangeWorkspaceFolders =
+    vscode.workspace.onDidChangeWorkspaceFolders(reloadChanged);
+  context.subscriptions.push(onDidChangeWorkspaceFolders);
+
   // setup the reload command
   const reload = vscode.commands.registerCommand(
     "tree-sitter-vscode.reload",
     () => {
       // dispose of the old providers and clear the list of subscriptions
       reload.dispose();
+      parserWorker.dispose();
       provider.dispose();
+      rangeProvider.dispose();
       selectionProvider.dispose();
       foldProvider?.dispose();
+      symbolProvider?.dispose();
+      workspaceSymbolProvider?.dispose();
+      workspaceSymbolRegistration?.dispose();
+      localsProviders.forEach((localsProvider) => localsProvider.dispose());
+      diagnostics.dispose();
+      indentProvider?.dispose();
+      reindentLines.dispose();
+      textObjectCommands.forEach((command) => command.dispose());
+      brackets.dispose();
+      jumpToBracket.dispose();
+      syntaxTree.dispose();
+      inspect.dispose();
+      toggleAnonymous.dispose();
+      playground.dispose();
+      editQuery.dispose();
+      querySupport.dispose();
+      queryCompletion.dispose();
+      fileWatcher.dispose();
+      associations.dispose();
+      onDidOpen.dispose();
       onDidChange.dispose();
       onDidClose.dispose();
+      onDidChangeConfiguration.dispose();
+      onDidChangeWorkspaceFolders.dispose();
       context.subscriptions.length = 0;
       // reinitialize the extension
       activate(context);
@@ -181,18 +517,86 @@ export function deactivate() {
   /* empty */
 }
 
-function parseConfigs(configs: unknown): Config[] {
+/**
+ * Reads the configs of the user and workspace settings and, in a multi-root workspace,
+ * the configs of each workspace folder, which take precedence for the files in that folder.
+ */
+function readConfigs(): Config[] {
+  const settings = vscode.workspace.getConfiguration("tree-sitter-vscode");
+  const workspaceFile = vscode.workspace.workspaceFile;
+  // the settings of a multi-root workspace are stored in its workspace file,
+  // so their relative paths are resolved against its directory like in VSCode
+  const directory =
+    workspaceFile?.scheme === "file" &&
+    settings.inspect("languageConfigs")?.workspaceValue !== undefined
+      ? path.dirname(workspaceFile.fsPath)
+      : undefined;
+  const configs = parseConfigs(
+    settings.get("languageConfigs"),
+    undefined,
+    directory,
+  );
+  // the settings of a single folder are the workspace settings
+  if (workspaceFile === undefined) {
+    return configs;
+  }
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const folderConfigs = vscode.workspace
+      .getConfiguration("tree-sitter-vscode", folder.uri)
+      .inspect("languageConfigs")?.workspaceFolderValue;
+    if (folderConfigs !== undefined) {
+      configs.push(...parseConfigs(folderConfigs, folder));
+    }
+  }
+  return configs;
+}
+
+/**
+ * Validates the configs and resolves their paths, see `toAbsolutePath`.
+ * The folder is the workspace folder, whose settings contain the configs.
+ */
+function parseConfigs(
+  configs: unknown,
+  folder?: vscode.WorkspaceFolder,
+  directory?: string,
+): Config[] {
   if (!Array.isArray(configs)) {
     throw new TypeError("Expected a list.");
   }
   return configs
     .map((config) => {
+      // the values found in the grammar directory can be overridden by the config
+      const lang = config["lang"];
+      const grammar = config["grammar"];
+      if (grammar === undefined || typeof lang !== "string") {
+        return config;
+      }
+      if (typeof grammar !== "string") {
+        throw new TypeError("Expected `grammar` to be a string.");
+      }
+      const grammarDirectory = toAbsolutePath(grammar, folder, directory);
+      const merged = { ...findGrammar(grammarDirectory, lang), ...config };
+      if (merged.parser === undefined) {
+        throw new Error(
+          `No parser for ${lang} found in ${grammarDirectory}. It can be built with \`tree-sitter build --wasm\`.`,
+        );
+      }
+      return merged;
+    })
+    .map((config): Config => {
       const lang = config["lang"];
+      const grammar = config["grammar"];
       const parser = config["parser"];
       const highlights = config["highlights"];
-      const injections = config["injections"];
-      const folds = config["folds"];
+      const fileTypes = config["fileTypes"];
+      const filenamePatterns = config["filenamePatterns"];
+      const firstLine = config["firstLine"];
+      const comments = config["comments"];
+      const brackets = config["brackets"];
+      const injectionRegex = config["injectionRegex"];
       let injectionOnly = config["injectionOnly"];
+      let syntaxErrors = config["syntaxErrors"];
+      const captureConvention = config["captureConvention"];
       const semanticTokenTypeMappings = config["semanticTokenTypeMappings"];
       if (typeof lang !== "string") {
         throw new TypeError("Expected `lang` to be a string.");
@@ -200,18 +604,79 @@ function parseConfigs(configs: unknown): Config[] {
       if (typeof parser !== "string") {
         throw new TypeError("Expected `parser` to be a string.");
       }
-      if (typeof highlights !== "string") {
-        throw new TypeError("Expected `highlights` to be a string.");
+      if (!isQueryFiles(highlights)) {
+        throw new TypeError(
+          "Expected `highlights` to be a string or a list of strings.",
+        );
+      }
+      const queryFiles: Partial<Record<QueryKind, QueryFiles>> = {};
+      for (const kind of QUERY_KINDS) {
+        const files = config[kind];
+        if (files === undefined) continue;
+        if (!isQueryFiles(files)) {
+          throw new TypeError(
+            `Expected \`${kind}\` to be a string or a list of strings.`,
+          );
+        }
+        queryFiles[kind] = files;
+      }
+      if (
+        fileTypes !== undefined &&
+        (!Array.isArray(fileTypes) ||
+          !fileTypes.every((fileType) => typeof fileType === "string"))
+      ) {
+        throw new TypeError("Expected `fileTypes` to be a list of strings.");
+      }
+      if (
+        filenamePatterns !== undefined &&
+        (!Array.isArray(filenamePatterns) ||
+          !filenamePatterns.every((pattern) => typeof pattern === "string"))
+      ) {
+        throw new TypeError(
+          "Expected `filenamePatterns` to be a list of strings.",
+        );
+      }
+      if (firstLine !== undefined && typeof firstLine !== "string") {
+        throw new TypeError("Expected `firstLine` to be a string.");
+      }
+      if (
+        comments !== undefined &&
+        (typeof comments !== "object" ||
+          comments === null ||
+          (comments.lineComment !== undefined &&
+            typeof comments.lineComment !== "string") ||
+          (comments.blockComment !== undefined &&
+            !isCharacterPair(comments.blockComment)))
+      ) {
+        throw new TypeError(
+          "Expected `comments` to be an object with an optional `lineComment` string and `blockComment` pair.",
+        );
       }
-      if (injections !== undefined && typeof injections !== "string") {
-        throw new TypeError("Expected `injections` to be a string.");
+      if (
+        brackets !== undefined &&
+        (!Array.isArray(brackets) || !brackets.every(isCharacterPair))
+      ) {
+        throw new TypeError(
+          "Expected `brackets` to be a list of pairs of strings.",
+        );
       }
-      if (folds !== undefined && typeof folds !== "string") {
-        throw new TypeError("Expected `folds` to be a string.");
+      if (injectionRegex !== undefined && typeof injectionRegex !== "string") {
+        throw new TypeError("Expected `injectionRegex` to be a string.");
       }
       if (injectionOnly !== undefined && typeof injectionOnly !== "boolean") {
         throw new TypeError("Expected `injectionOnly` to be a boolean.");
       }
+      if (syntaxErrors !== undefined && typeof syntaxErrors !== "boolean") {
+        throw new TypeError("Expected `syntaxErrors` to be a boolean.");
+      }
+      if (
+        captureConvention !== undefined &&
+        !CAPTURE_CONVENTIONS.includes(captureConvention)
+      ) {
+        throw new TypeError(
+          `Expected \`captureConvention\` to be one of ${CAPTURE_CONVENTIONS.join(", ")}.`,
+        );
+      }
       if (
         semanticTokenTypeMappings !== undefined &&
         (typeof semanticTokenTypeMappings !== "object" ||
@@ -224,546 +689,1063 @@ function parseConfigs(configs: unknown): Config[] {
       if (injectionOnly === undefined) {
         injectionOnly = false;
       }
+      if (syntaxErrors === undefined) {
+        syntaxErrors = true;
+      }
       return {
         lang,
+        grammar,
         parser,
+        ...queryFiles,
         highlights,
-        injections,
-        folds,
+        fileTypes,
+        filenamePatterns,
+        firstLine,
+        comments,
+        brackets,
+        injectionRegex,
         injectionOnly,
+        syntaxErrors,
+        captureConvention,
         semanticTokenTypeMappings,
       };
     })
     .map((config) => {
-      const parser = toAbsolutePath(config.parser);
-      const highlights = toAbsolutePath(config.highlights);
-      const injections =
-        config.injections !== undefined
-          ? toAbsolutePath(config.injections)
-          : undefined;
-      const folds =
-        config.folds !== undefined ? toAbsolutePath(config.folds) : undefined;
-      return { ...config, parser, highlights, injections, folds };
+      const queryFiles: Partial<Record<QueryKind, QueryFiles>> = {};
+      for (const kind of QUERY_KINDS) {
+        const files = config[kind];
+        if (files === undefined) continue;
+        queryFiles[kind] = Array.isArray(files)
+          ? files.map((file) => toAbsolutePath(file, folder, directory))
+          : toAbsolutePath(files, folder, directory);
+      }
+      return {
+        ...config,
+        ...queryFiles,
+        parser: toAbsolutePath(config.parser, folder, directory),
+        folder: folder?.uri.fsPath,
+      };
     });
 }
 
-function toAbsolutePath(file: string): string {
-  if (path.isAbsolute(file)) {
-    return file;
+function isCharacterPair(pair: unknown): pair is CharacterPair {
+  return (
+    Array.isArray(pair) &&
+    pair.length === 2 &&
+    pair.every((value) => typeof value === "string")
+  );
+}
+
+/**
+ * Returns the config for the bundled query language,
+ * if its parser has been built (see the `build:query-grammar` script).
+ */
+function getQueryLanguageConfig(extensionPath: string): Config | undefined {
+  const parser = path.join(extensionPath, "grammars", "tree-sitter-query.wasm");
+  if (!fs.existsSync(parser)) {
+    log("No bundled parser for query files found.");
+    return undefined;
+  }
+  return {
+    lang: QUERY_LANGUAGE,
+    parser,
+    highlights: path.join(extensionPath, "queries", "query", "highlights.scm"),
+    folds: path.join(extensionPath, "queries", "query", "folds.scm"),
+    injectionOnly: false,
+    syntaxErrors: false,
+  };
+}
+
+/**
+ * Finds the language config, that references the given file as one of its queries.
+ */
+function findQueryFile(
+  configs: Config[],
+  uri: vscode.Uri,
+): { config: Config; kind: QueryKind } | undefined {
+  if (uri.scheme !== "file") {
+    return undefined;
+  }
+  const file = path.normalize(uri.fsPath);
+  for (const config of configs) {
+    for (const kind of QUERY_KINDS) {
+      const queryFiles = [config[kind] ?? []].flat();
+      if (queryFiles.some((queryFile) => path.normalize(queryFile) === file)) {
+        return { config, kind };
+      }
+    }
   }
+  return undefined;
+}
 
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  if (!workspaceFolders || workspaceFolders.length === 0) {
+/**
+ * Substitutes a leading `~` and the variables `${workspaceFolder}`, `${workspaceFolder:name}`,
+ * `${userHome}` and `${env:NAME}`, and resolves relative paths against the given directory.
+ * By default, that is the workspace folder, whose settings contain the path,
+ * or the first workspace folder for the user settings.
+ */
+function toAbsolutePath(
+  file: string,
+  folder?: vscode.WorkspaceFolder,
+  directory?: string,
+): string {
+  const workspaceFolder = folder ?? vscode.workspace.workspaceFolders?.[0];
+  const base = directory ?? workspaceFolder?.uri.fsPath;
+  const resolved = file
+    .replace(/^~(?=$|[\\/])/, os.homedir())
+    .replace(
+      /\$\{([^}:]+)(?::([^}]*))?\}/g,
+      (variable: string, name: string, argument?: string) =>
+        resolveVariable(variable, name, argument, workspaceFolder),
+    );
+  if (path.isAbsolute(resolved)) {
+    return resolved;
+  }
+  if (base === undefined) {
     throw new Error(
-      "Trying to resolve a relative path, but no workspace folder is open.",
+      `Trying to resolve the relative path ${file}, but no workspace folder is open.`,
     );
   }
+  return path.resolve(base, resolved);
+}
 
-  const workspaceRoot = workspaceFolders[0].uri.fsPath;
-  return path.resolve(workspaceRoot, file);
+function resolveVariable(
+  variable: string,
+  name: string,
+  argument: string | undefined,
+  workspaceFolder?: vscode.WorkspaceFolder,
+): string {
+  switch (name) {
+    case "workspaceFolder": {
+      const folder =
+        argument === undefined
+          ? workspaceFolder
+          : vscode.workspace.workspaceFolders?.find(
+              (folder) => folder.name === argument,
+            );
+      if (folder === undefined) {
+        throw new Error(
+          `Can't resolve ${variable}, since the workspace folder is not open.`,
+        );
+      }
+      return folder.uri.fsPath;
+    }
+    case "userHome":
+      return os.homedir();
+    case "env":
+      return process.env[argument ?? ""] ?? "";
+  }
+  throw new Error(`Unknown variable ${variable} in a path.`);
 }
 
+/**
+ * Loads the parsers of the languages in the extension host without compiling their queries,
+ * which are only used to compile the queries of query files and of the query playground.
+ * Documents are parsed by the `ParserWorker`.
+ */
 class LanguageCache {
   readonly configs: Config[];
-  private tsLangs: Record<string, Language> = {};
-  private trees = new Map<string, ts.Tree>();
+  private tsLangs = new Map<Config, ts.Language>();
 
   constructor(configs: Config[]) {
     this.configs = configs;
   }
 
-  async getLanguage(lang: string): Promise<Language | undefined> {
-    if (!(lang in this.tsLangs)) {
-      const config = this.configs.find((config) => config.lang === lang);
-      if (config === undefined) {
-        return undefined;
-      }
-      this.tsLangs[lang] = await initLanguage(config);
-    }
-    return this.tsLangs[lang];
-  }
-
   /**
-   * Returns a syntax tree for the document, using incremental parsing when possible.
-   * The returned tree is a copy safe for the caller to use without interference
-   * from subsequent edits.
+   * Returns the language for the file,
+   * using the config of its workspace folder if there is one.
    */
-  getTree(document: vscode.TextDocument): ts.Tree | null {
-    const lang = this.tsLangs[document.languageId];
-    if (!lang) return null;
-
-    const uri = document.uri.toString();
-    const cached = this.trees.get(uri);
-    if (cached) {
-      return cached.copy();
+  async getLanguage(
+    lang: string,
+    uri?: vscode.Uri,
+  ): Promise<ts.Language | undefined> {
+    const config = findConfig(this.configs, lang, uri?.fsPath);
+    if (config === undefined) {
+      return undefined;
     }
+    return this.loadLanguage(config);
+  }
 
-    const tree = lang.parser.parse(document.getText());
-    if (tree) {
-      this.trees.set(uri, tree);
+  async loadLanguage(config: Config): Promise<ts.Language> {
+    let tsLang = this.tsLangs.get(config);
+    if (tsLang === undefined) {
+      tsLang = await loadTsLanguage(config);
+      this.tsLangs.set(config, tsLang);
     }
-    return tree;
+    return tsLang;
   }
 
   /**
-   * Applies document edits to the cached tree and re-parses incrementally.
-   * Changes are applied in reverse document order so positions remain valid.
+   * Loads the parser of the language again, if it has been loaded before and its file changed.
+   * The previous version of the parser is kept, if loading fails.
    */
-  applyEdits(event: vscode.TextDocumentChangeEvent): void {
-    const uri = event.document.uri.toString();
-    const tree = this.trees.get(uri);
-    if (!tree) return;
+  async reloadLanguage(config: Config): Promise<void> {
+    if (!this.tsLangs.has(config)) {
+      return;
+    }
+    this.tsLangs.set(config, await loadTsLanguage(config));
+    log(`Reloaded language: ${config.lang}`);
+  }
+
+  getConfig(document: vscode.TextDocument): Config | undefined {
+    return findConfig(
+      this.configs,
+      getLanguageId(this.configs, document),
+      document.uri.fsPath,
+    );
+  }
+}
 
-    const lang = this.tsLangs[event.document.languageId];
-    if (!lang) return;
+/**
+ * Runs the parsing and querying of documents for all features in a worker thread,
+ * so that slow parsers or queries don't block the extension host.
+ * Documents are sent to the worker when they are first requested and are kept in sync afterwards.
+ * Requests are cancelled after the configured timeout or when VSCode cancels them.
+ */
+class ParserWorker implements vscode.Disposable {
+  private readonly workerPath: string;
+  private readonly configs: Config[];
+  private readonly timeout: number;
+  // the ids of cancelled requests, shared with the worker to stop running requests
+  private readonly cancelled = new Int32Array(
+    new SharedArrayBuffer(1024 * Int32Array.BYTES_PER_ELEMENT),
+  );
+  private readonly pending = new Map<
+    number,
+    { resolve: (result: unknown) => void; reject: (error: Error) => void }
+  >();
+  // the documents the worker knows about
+  private readonly documents = new Set<string>();
+  private worker: Worker | undefined;
+  private nextId = 1;
+
+  constructor(workerPath: string, configs: Config[], timeout: number) {
+    this.workerPath = workerPath;
+    this.configs = configs;
+    this.timeout = timeout;
+  }
 
-    const changes = [...event.contentChanges].sort(
-      (a, b) => b.rangeOffset - a.rangeOffset,
+  getTokens(
+    document: vscode.TextDocument,
+    lines: [number, number] | undefined,
+    token: vscode.CancellationToken,
+  ): Promise<Token[]> {
+    this.open(document);
+    return this.request(
+      {
+        id: this.nextId++,
+        method: "tokens",
+        uri: document.uri.toString(),
+        lines,
+      },
+      token,
     );
+  }
 
-    for (const change of changes) {
-      const startPosition: ts.Point = {
-        row: change.range.start.line,
-        column: change.range.start.character,
-      };
-      const oldEndPosition: ts.Point = {
-        row: change.range.end.line,
-        column: change.range.end.character,
-      };
-      const newLines = change.text.split("\n");
-      const newEndPosition: ts.Point = {
-        row: startPosition.row + newLines.length - 1,
-        column:
-          newLines.length === 1
-            ? startPosition.column + newLines[0].length
-            : newLines[newLines.length - 1].length,
-      };
+  getFoldingRanges(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken,
+  ): Promise<FoldingRange[]> {
+    this.open(document);
+    return this.request(
+      { id: this.nextId++, method: "folds", uri: document.uri.toString() },
+      token,
+    );
+  }
 
-      tree.edit(
-        new ts.Edit({
-          startIndex: change.rangeOffset,
-          oldEndIndex: change.rangeOffset + change.rangeLength,
-          newEndIndex: change.rangeOffset + change.text.length,
-          startPosition,
-          oldEndPosition,
-          newEndPosition,
-        }),
-      );
-    }
+  getSelectionRanges(
+    document: vscode.TextDocument,
+    positions: vscode.Position[],
+    token: vscode.CancellationToken,
+  ): Promise<Range[][]> {
+    this.open(document);
+    return this.request(
+      {
+        id: this.nextId++,
+        method: "selectionRanges",
+        uri: document.uri.toString(),
+        positions: positions.map((position) => ({
+          row: position.line,
+          column: position.character,
+        })),
+      },
+      token,
+    );
+  }
 
-    const newTree = lang.parser.parse(event.document.getText(), tree);
-    if (newTree) {
-      this.trees.set(uri, newTree);
-    }
+  getSymbols(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken,
+  ): Promise<OutlineSymbol[]> {
+    this.open(document);
+    return this.request(
+      { id: this.nextId++, method: "symbols", uri: document.uri.toString() },
+      token,
+    );
   }
 
-  removeDocument(uri: vscode.Uri): void {
-    this.trees.delete(uri.toString());
+  /**
+   * Parses the text of a file, that is not open, with the language of the config.
+   */
+  getTags(config: Config, text: string): Promise<Tag[]> {
+    return this.request({
+      id: this.nextId++,
+      method: "tags",
+      lang: config.lang,
+      folder: config.folder,
+      text,
+    });
   }
-}
 
-async function initLanguage(config: Config): Promise<Language> {
-  log(() => {
-    return `Initializing language: ${config.lang}`;
-  });
-  await Parser.init().catch();
-  const parser = new Parser();
-  const lang = await ts.Language.load(config.parser);
-  log(`Tree-Sitter ABI version for ${config.lang} is ${lang.abiVersion}.`);
-  parser.setLanguage(lang);
-  const queryText = fs.readFileSync(config.highlights, "utf-8");
-  const highlightQuery = new ts.Query(lang, queryText);
-  let injectionQuery = undefined;
-  if (config.injections !== undefined) {
-    const injectionText = fs.readFileSync(config.injections, "utf-8");
-    injectionQuery = new ts.Query(lang, injectionText);
-  }
-  let foldQuery = undefined;
-  if (config.folds !== undefined) {
-    const foldText = fs.readFileSync(config.folds, "utf-8");
-    foldQuery = new ts.Query(lang, foldText);
+  getLocalReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<LocalReferences | undefined> {
+    this.open(document);
+    return this.request(
+      {
+        id: this.nextId++,
+        method: "localReferences",
+        uri: document.uri.toString(),
+        position: { row: position.line, column: position.character },
+      },
+      token,
+    );
   }
-  return {
-    parser,
-    highlightQuery,
-    injectionQuery,
-    foldQuery,
-    semanticTokenTypeMappings: config.semanticTokenTypeMappings,
-  };
-}
 
-function convertPosition(pos: ts.Point): vscode.Position {
-  return new vscode.Position(pos.row, pos.column);
-}
+  getProblems(document: vscode.TextDocument): Promise<Problem[]> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "problems",
+      uri: document.uri.toString(),
+    });
+  }
 
-function addPosition(range: vscode.Range, pos: vscode.Position): vscode.Range {
-  const start =
-    range.start.line == 0
-      ? new vscode.Position(
-          range.start.line + pos.line,
-          range.start.character + pos.character,
-        )
-      : new vscode.Position(range.start.line + pos.line, range.start.character);
-  const end =
-    range.end.line == 0
-      ? new vscode.Position(
-          range.end.line + pos.line,
-          range.end.character + pos.character,
-        )
-      : new vscode.Position(range.end.line + pos.line, range.end.character);
-  return new vscode.Range(start, end);
-}
+  /**
+   * Checks the names in the query document against the language of the config.
+   */
+  getQueryProblems(
+    document: vscode.TextDocument,
+    config: Config,
+  ): Promise<Problem[]> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "queryProblems",
+      uri: document.uri.toString(),
+      lang: config.lang,
+      folder: config.folder,
+    });
+  }
 
-function parseCaptureName(name: string): { type: string; modifiers: string[] } {
-  const parts = name.split(".");
-  if (parts.length === 0) {
-    throw new Error("Capture name is empty.");
-  } else if (parts.length === 1) {
-    return { type: parts[0], modifiers: [] };
-  } else {
-    return { type: parts[0], modifiers: parts.slice(1) };
+  getIndents(
+    document: vscode.TextDocument,
+    rows: number[],
+    tabSize: number,
+    skipEmptyLines: boolean,
+    token?: vscode.CancellationToken,
+  ): Promise<LineIndent[]> {
+    this.open(document);
+    return this.request(
+      {
+        id: this.nextId++,
+        method: "indents",
+        uri: document.uri.toString(),
+        rows,
+        tabSize,
+        skipEmptyLines,
+      },
+      token,
+    );
   }
-}
 
-/**
- * Semantic tokens cannot span multiple lines,
- * so if the range doesn't end in the same line,
- * one token for each line is created.
- */
-function splitToken(token: Token): Token[] {
-  const start = token.range.start;
-  const end = token.range.end;
-  if (start.line != end.line) {
-    // 100_0000 is chosen as the arbitrary length, since the actual line length is unknown.
-    // Choosing a big number works, while `Number.MAX_VALUE` seems to confuse VSCode.
-    const maxLineLength = 100_000;
-    const lineDiff = end.line - start.line;
-    if (lineDiff < 0) {
-      throw new RangeError("Invalid token range");
-    }
-    const tokens: Token[] = [];
-    // token for the first line, beginning at the start char
-    tokens.push({
-      range: new vscode.Range(
-        start,
-        new vscode.Position(start.line, maxLineLength),
-      ),
-      type: token.type,
-      modifiers: token.modifiers,
+  getTextObjectNames(document: vscode.TextDocument): Promise<string[]> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "textObjectNames",
+      uri: document.uri.toString(),
     });
-    // tokens for intermediate lines, spanning from 0 to maxLineLength
-    for (let i = 1; i < lineDiff; i++) {
-      const middleToken: Token = {
-        range: new vscode.Range(
-          new vscode.Position(start.line + i, 0),
-          new vscode.Position(start.line + i, maxLineLength),
-        ),
-        type: token.type,
-        modifiers: token.modifiers,
-      };
-      tokens.push(middleToken);
-    }
-    // token for the last line, ending at the end char
-    tokens.push({
-      range: new vscode.Range(new vscode.Position(end.line, 0), end),
-      type: token.type,
-      modifiers: token.modifiers,
+  }
+
+  getTextObjects(
+    document: vscode.TextDocument,
+    name: string,
+  ): Promise<TextObject[]> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "textObjects",
+      uri: document.uri.toString(),
+      name,
     });
-    return tokens;
-  } else {
-    return [token];
   }
-}
 
-class SemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
-  private readonly cache: LanguageCache;
+  getParentStarts(
+    document: vscode.TextDocument,
+    ranges: readonly vscode.Range[],
+  ): Promise<(ts.Point | null)[]> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "parentStarts",
+      uri: document.uri.toString(),
+      ranges: ranges.map((range) => ({
+        start: { row: range.start.line, column: range.start.character },
+        end: { row: range.end.line, column: range.end.character },
+      })),
+    });
+  }
 
-  constructor(cache: LanguageCache) {
-    this.cache = cache;
+  getDelimiters(document: vscode.TextDocument): Promise<DelimiterGroup[]> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "delimiters",
+      uri: document.uri.toString(),
+    });
+  }
+
+  getSyntaxTree(document: vscode.TextDocument): Promise<SyntaxNode> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "syntaxTree",
+      uri: document.uri.toString(),
+    });
+  }
+
+  getCaptures(
+    document: vscode.TextDocument,
+    query: string,
+  ): Promise<Capture[]> {
+    this.open(document);
+    return this.request({
+      id: this.nextId++,
+      method: "captures",
+      uri: document.uri.toString(),
+      query,
+    });
   }
 
   /**
-   * Called regularly by VSCode to provide semantic tokens for the given document.
-   * It parses the document with the corresponding language parser and returns the tokens.
+   * Loads the language again in the worker, if it is running.
    */
-  async provideDocumentSemanticTokens(
-    document: vscode.TextDocument,
-    token: vscode.CancellationToken,
-  ) {
-    const tsLang = await this.cache.getLanguage(document.languageId);
-    if (tsLang === undefined) {
-      throw new Error("No config for lang provided.");
-    }
-    const tree = this.cache.getTree(document);
-    if (tree === null) {
-      throw new Error("Failed to parse document.");
+  async reloadLanguage(config: Config): Promise<void> {
+    if (this.worker === undefined) {
+      return;
     }
-    const tokens = await this.parseToTokens(tsLang, tree, {
-      row: 0,
-      column: 0,
+    await this.request({
+      id: this.nextId++,
+      method: "reload",
+      lang: config.lang,
+      folder: config.folder,
     });
-    const builder = new vscode.SemanticTokensBuilder(LEGEND);
-    tokens.forEach((token) =>
-      builder.push(token.range, token.type, token.modifiers),
-    );
-    return builder.build();
   }
 
   /**
-   * Returns the highlighting tokens for the given syntax tree.
-   * Calls `getInjections` for nested injections.
+   * Sends the changes of a document to the worker, which applies them to its copy.
+   * Changes are sent in reverse document order so positions remain valid.
    */
-  async parseToTokens(
-    lang: Language,
-    tree: ts.Tree,
-    startPosition: ts.Point,
-  ): Promise<Token[]> {
-    const { highlightQuery, injectionQuery } = lang;
-    const matches = highlightQuery.matches(tree.rootNode);
-    let tokens = this.matchesToTokens(lang, matches);
-    if (injectionQuery !== undefined) {
-      const injections = await this.getInjections(
-        injectionQuery,
-        tree.rootNode,
-      );
-      // merge the injection tokens with the main tokens
-      for (const injection of injections) {
-        if (injection.tokens.length > 0) {
-          const range = injection.range;
-          tokens = tokens
-            // remove all tokens that are contained in an injection
-            .filter((token) => !range.contains(token.range))
-            // split tokens that are partially contained in an injection
-            .flatMap((token) => {
-              if (token.range.intersection(range) !== undefined) {
-                const newTokens: Token[] = [];
-                if (token.range.start.isBefore(range.start)) {
-                  const before = new vscode.Range(
-                    token.range.start,
-                    range.start,
-                  );
-                  newTokens.push({ ...token, range: before });
-                }
-                if (token.range.end.isAfter(range.end)) {
-                  const after = new vscode.Range(range.end, token.range.end);
-                  newTokens.push({ ...token, range: after });
-                }
-                return newTokens;
-              } else {
-                return [token];
-              }
-            });
-        }
-      }
-      tokens = tokens.concat(
-        injections.map((injection) => injection.tokens).flat(),
-      );
+  applyEdits(event: vscode.TextDocumentChangeEvent): void {
+    const uri = event.document.uri.toString();
+    if (!this.documents.has(uri)) return;
+
+    const changes = [...event.contentChanges]
+      .sort((a, b) => b.rangeOffset - a.rangeOffset)
+      .map((change) => ({
+        rangeOffset: change.rangeOffset,
+        rangeLength: change.rangeLength,
+        text: change.text,
+        startPosition: {
+          row: change.range.start.line,
+          column: change.range.start.character,
+        },
+        oldEndPosition: {
+          row: change.range.end.line,
+          column: change.range.end.character,
+        },
+      }));
+    this.post({ method: "change", uri, changes });
+  }
+
+  removeDocument(uri: vscode.Uri): void {
+    if (this.documents.delete(uri.toString())) {
+      this.post({ method: "close", uri: uri.toString() });
     }
-    tokens = tokens.map((token) => {
-      return {
-        ...token,
-        range: addPosition(token.range, convertPosition(startPosition)),
-      };
+  }
+
+  dispose() {
+    this.worker?.terminate();
+  }
+
+  private open(document: vscode.TextDocument) {
+    const uri = document.uri.toString();
+    if (this.documents.has(uri)) return;
+    this.post({
+      method: "open",
+      uri,
+      lang: getLanguageId(this.configs, document),
+      folder: findConfig(
+        this.configs,
+        getLanguageId(this.configs, document),
+        document.uri.fsPath,
+      )?.folder,
+      text: document.getText(),
     });
-    return tokens;
-  }
-
-  matchesToTokens(lang: Language, matches: ts.QueryMatch[]): Token[] {
-    const unsplitTokens: Token[] = matches
-      .flatMap((match) => match.captures)
-      .flatMap((capture) => {
-        // Store the original capture name before splitting
-        const originalCaptureName = capture.name;
-        let { type, modifiers: modifiers } = parseCaptureName(capture.name);
-        const start = convertPosition(capture.node.startPosition);
-        const end = convertPosition(capture.node.endPosition);
-
-        // First check if we have a mapping for the original unsplit name
-        if (
-          lang.semanticTokenTypeMappings &&
-          Object.prototype.hasOwnProperty.call(
-            lang.semanticTokenTypeMappings,
-            originalCaptureName,
-          )
-        ) {
-          const mapping = lang.semanticTokenTypeMappings[originalCaptureName];
-
-          type = mapping.targetTokenType;
-          modifiers = mapping.targetTokenModifiers ?? [];
-
-          log(() => {
-            return `Applied type mapping for original name: ${originalCaptureName} → ${mapping.targetTokenType}${
-              mapping.targetTokenModifiers &&
-              mapping.targetTokenModifiers.length > 0
-                ? ` with modifiers: ${mapping.targetTokenModifiers.join(", ")}`
-                : ""
-            }`;
-          });
-        }
-        // If no mapping for the full name, check for just the type
-        else if (
-          lang.semanticTokenTypeMappings &&
-          Object.prototype.hasOwnProperty.call(
-            lang.semanticTokenTypeMappings,
-            type,
-          )
-        ) {
-          const mapping = lang.semanticTokenTypeMappings[type];
-
-          type = mapping.targetTokenType;
-          modifiers = mapping.targetTokenModifiers ?? [];
-
-          log(() => {
-            return `Applied type mapping for base type: ${type} → ${mapping.targetTokenType}${
-              mapping.targetTokenModifiers &&
-              mapping.targetTokenModifiers.length > 0
-                ? ` with modifiers: ${mapping.targetTokenModifiers.join(", ")}`
-                : ""
-            }`;
-          });
-        }
+    this.documents.add(uri);
+  }
 
-        if (TOKEN_TYPES.includes(type)) {
-          const validModifiers = modifiers.filter((modifier) =>
-            TOKEN_MODIFIERS.includes(modifier),
-          );
-          const token: Token = {
-            range: new vscode.Range(start, end),
-            type: type,
-            modifiers: validModifiers,
-          };
-          return token;
-        } else {
-          return [];
-        }
+  private request<T>(
+    request: Extract<WorkerRequest, { id: number }>,
+    token?: vscode.CancellationToken,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const cancel = (error: Error) => {
+        Atomics.store(
+          this.cancelled,
+          request.id % this.cancelled.length,
+          request.id,
+        );
+        this.pending.get(request.id)?.reject(error);
+      };
+      // a timeout of 0 disables it
+      const timer =
+        this.timeout > 0
+          ? setTimeout(
+              () =>
+                cancel(
+                  new Error(
+                    `The ${request.method} request timed out after ${this.timeout} ms.`,
+                  ),
+                ),
+              this.timeout,
+            )
+          : undefined;
+      const cancellation = token?.onCancellationRequested(() =>
+        cancel(new vscode.CancellationError()),
+      );
+      const settle = () => {
+        clearTimeout(timer);
+        cancellation?.dispose();
+        this.pending.delete(request.id);
+      };
+      this.pending.set(request.id, {
+        resolve: (result) => {
+          settle();
+          resolve(result as T);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
       });
+      this.post(request);
+    });
+  }
 
-    return unsplitTokens
-      .flatMap((token) => {
-        // Get all tokens contained within this token
-        const contained = unsplitTokens.filter(
-          (t) => !token.range.isEqual(t.range) && token.range.contains(t.range),
-        );
+  private post(request: WorkerRequest) {
+    if (this.worker === undefined) {
+      this.worker = this.start();
+    }
+    this.worker.postMessage(request);
+  }
 
-        if (contained.length > 0) {
-          // Sort contained tokens by their start position
-          const sortedContained = contained.sort((a, b) =>
-            a.range.start.compareTo(b.range.start),
-          );
+  private start(): Worker {
+    log("Starting worker");
+    const worker = new Worker(this.workerPath, {
+      workerData: {
+        configs: this.configs,
+        cancelled: this.cancelled,
+        debug: vscode.workspace
+          .getConfiguration("tree-sitter-vscode")
+          .get("debug", false),
+        tokenTypes: getTokenTypes(),
+        tokenModifiers: getTokenModifiers(),
+      } satisfies WorkerData,
+    });
+    worker.on("message", (message: WorkerMessage) => this.receive(message));
+    worker.on("error", (error) => log(`Worker failed: ${error}`));
+    worker.on("exit", (code) => {
+      log(`Worker exited with code ${code}`);
+      // the documents are sent again to the next worker
+      this.worker = undefined;
+      this.documents.clear();
+      for (const { reject } of this.pending.values()) {
+        reject(new Error("The worker exited."));
+      }
+    });
+    return worker;
+  }
 
-          const resultTokens = [];
-          let currentPos = token.range.start;
-
-          // Create tokens for the gaps between contained tokens
-          for (const containedToken of sortedContained) {
-            // If there's a gap before this contained token, create a token for it
-            if (currentPos.compareTo(containedToken.range.start) < 0) {
-              resultTokens.push({
-                ...token,
-                range: new vscode.Range(currentPos, containedToken.range.start),
-              });
-            }
-            currentPos = containedToken.range.end;
-          }
+  private receive(message: WorkerMessage) {
+    if ("method" in message) {
+      log(message.message);
+      return;
+    }
+    // requests, which were cancelled or timed out, are not pending anymore
+    const pending = this.pending.get(message.id);
+    if (pending === undefined) return;
+    if ("error" in message) {
+      pending.reject(
+        message.cancelled
+          ? new vscode.CancellationError()
+          : new Error(message.error),
+      );
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+}
 
-          // Add token for the gap after the last contained token if needed
-          if (currentPos.compareTo(token.range.end) < 0) {
-            resultTokens.push({
-              ...token,
-              range: new vscode.Range(currentPos, token.range.end),
-            });
-          }
+function convertPosition(pos: ts.Point): vscode.Position {
+  return new vscode.Position(pos.row, pos.column);
+}
 
-          return resultTokens;
-        } else {
-          return token;
-        }
-      })
-      .flatMap(splitToken);
-  }
-
-  /**
-   * Get the injection range and tokens for a specific match.
-   */
-  async getInjection(match: ts.QueryMatch): Promise<Injection | null> {
-    // determine language
-    const {
-      "injection.language": injectionLanguage,
-      // TODO: add support for self and parent injections
-      // "injection.self": injectionSelf,
-      // "injection.parent": injectionParent
-    } = match.setProperties || {};
-    // the language is hard coded by "set!"
-    const hardCoded =
-      typeof injectionLanguage == "string" ? injectionLanguage : undefined;
-    // dynamically determined language
-    const dynamic = match.captures.find(
-      (capture) => capture.name === "injection.language",
-    )?.node.text;
-    // custom language determination by capture name
-    const name = match.captures.find((capture) =>
-      this.cache.configs.map((config) => config.lang).includes(capture.name),
-    )?.name;
-
-    const lang = hardCoded || dynamic || name;
-    if (lang === undefined) return null;
-
-    // determine capture
-    let capture = undefined;
-    if (hardCoded !== undefined) {
-      if (match.captures.length === 0) return null;
-      // use first capture (there should only be one)
-      capture = match.captures[0];
-    } else if (dynamic !== undefined) {
-      capture = match.captures.find(
-        (capture) => capture.name === "injection.content",
+function toRange(node: ts.Node | ts.Range): vscode.Range {
+  return new vscode.Range(
+    convertPosition(node.startPosition),
+    convertPosition(node.endPosition),
+  );
+}
+
+function convertRange(range: Range): vscode.Range {
+  return new vscode.Range(
+    convertPosition(range.start),
+    convertPosition(range.end),
+  );
+}
+
+function definitionKindToSymbolKind(kind: string): vscode.SymbolKind {
+  switch (kind) {
+    case "class":
+      return vscode.SymbolKind.Class;
+    case "constant":
+      return vscode.SymbolKind.Constant;
+    case "constructor":
+      return vscode.SymbolKind.Constructor;
+    case "enum":
+      return vscode.SymbolKind.Enum;
+    case "enum_variant":
+      return vscode.SymbolKind.EnumMember;
+    case "field":
+      return vscode.SymbolKind.Field;
+    case "function":
+      return vscode.SymbolKind.Function;
+    case "interface":
+      return vscode.SymbolKind.Interface;
+    case "macro":
+      return vscode.SymbolKind.Function;
+    case "method":
+      return vscode.SymbolKind.Method;
+    case "module":
+      return vscode.SymbolKind.Module;
+    case "namespace":
+      return vscode.SymbolKind.Namespace;
+    case "property":
+      return vscode.SymbolKind.Property;
+    case "struct":
+      return vscode.SymbolKind.Struct;
+    case "type":
+      return vscode.SymbolKind.Class;
+    case "variable":
+      return vscode.SymbolKind.Variable;
+    default:
+      return vscode.SymbolKind.Variable;
+  }
+}
+
+/**
+ * Returns a glob pattern for all files that VSCode associates with the language,
+ * based on the language contributions of the installed extensions
+ * and the file types of the config, which are either file extensions or whole file names.
+ */
+function getLanguageFilePattern(config: Config): string | undefined {
+  const lang = config.lang;
+  const patterns = vscode.extensions.all
+    .flatMap((extension) => {
+      const languages = extension.packageJSON?.contributes?.languages;
+      return Array.isArray(languages) ? languages : [];
+    })
+    .filter((language) => language?.id === lang)
+    .flatMap((language) => [
+      ...(Array.isArray(language.extensions)
+        ? language.extensions.map((extension: string) => `**/*${extension}`)
+        : []),
+      ...(Array.isArray(language.filenames)
+        ? language.filenames.map((filename: string) => `**/${filename}`)
+        : []),
+    ])
+    .concat(
+      (config.fileTypes ?? []).flatMap((fileType) => [
+        `**/*.${fileType}`,
+        `**/${fileType}`,
+      ]),
+      (config.filenamePatterns ?? []).map(toGlobPattern),
+    );
+  if (patterns.length === 0) {
+    return undefined;
+  }
+  return `{${[...new Set(patterns)].join(",")}}`;
+}
+
+/**
+ * Checks whether the document belongs to the language by its file name or by its first line.
+ */
+function matchesLanguage(
+  config: Config,
+  document: vscode.TextDocument,
+): boolean {
+  return (
+    matchesFileName(config, document) ||
+    (config.firstLine !== undefined &&
+      document.lineCount > 0 &&
+      new RegExp(config.firstLine).test(document.lineAt(0).text))
+  );
+}
+
+/**
+ * Checks whether the document belongs to the language by its file types or file name patterns.
+ */
+function matchesFileName(
+  config: Config,
+  document: vscode.TextDocument,
+): boolean {
+  if (
+    config.folder !== undefined &&
+    !isInsideFolder(config.folder, document.uri.fsPath)
+  ) {
+    return false;
+  }
+  const filename = path.basename(document.uri.path);
+  if (
+    config.fileTypes?.some(
+      (fileType) => filename === fileType || filename.endsWith(`.${fileType}`),
+    )
+  ) {
+    return true;
+  }
+  return (
+    config.filenamePatterns?.some(
+      (pattern) =>
+        vscode.languages.match({ pattern: toGlobPattern(pattern) }, document) >
+        0,
+    ) ?? false
+  );
+}
+
+/**
+ * Returns the language of the document. VSCode opens the files of languages,
+ * that no extension contributes, as plain text, so these are resolved by their file name.
+ */
+function getLanguageId(
+  configs: Config[],
+  document: vscode.TextDocument,
+): string {
+  if (document.languageId !== "plaintext") {
+    return document.languageId;
+  }
+  const config = configs.find(
+    (config) => !config.injectionOnly && matchesFileName(config, document),
+  );
+  return config?.lang ?? document.languageId;
+}
+
+/**
+ * Returns a document selector for the languages of the configs, which also matches
+ * the plain text files with their file types or file name patterns, see `getLanguageId`.
+ */
+function toDocumentSelector(configs: Config[]): vscode.DocumentFilter[] {
+  return configs.flatMap((config) => [
+    { language: config.lang },
+    ...[
+      ...(config.fileTypes ?? []).flatMap((fileType) => [
+        `**/*.${fileType}`,
+        `**/${fileType}`,
+      ]),
+      ...(config.filenamePatterns ?? []).map(toGlobPattern),
+    ].map((pattern) => {
+      return { scheme: "file", language: "plaintext", pattern };
+    }),
+  ]);
+}
+
+/**
+ * Patterns without a path, e.g. `*.xyz`, match the file name in any directory,
+ * like the `filenamePatterns` of a language contribution.
+ */
+function toGlobPattern(pattern: string): string {
+  return pattern.includes("/") ? pattern : `**/${pattern}`;
+}
+
+/**
+ * Checks whether the characters of the query appear in the name in the same order,
+ * ignoring case, as recommended for workspace symbol providers.
+ */
+function matchesSymbolQuery(name: string, query: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const char of query.toLowerCase()) {
+    index = lowerName.indexOf(char, index);
+    if (index === -1) {
+      return false;
+    }
+    index++;
+  }
+  return true;
+}
+
+/**
+ * Converts a syntax error or a capture of a diagnostics query, that the worker found, to a diagnostic.
+ */
+function problemToDiagnostic(problem: Problem): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    convertRange(problem.range),
+    problem.message,
+    captureNameToSeverity(problem.severity),
+  );
+  diagnostic.source = "tree-sitter";
+  if (problem.code !== undefined) {
+    diagnostic.code = problem.code;
+  }
+  if (problem.tag === "deprecated") {
+    diagnostic.tags = [vscode.DiagnosticTag.Deprecated];
+  } else if (problem.tag === "unnecessary") {
+    diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+  }
+  return diagnostic;
+}
+
+function captureNameToSeverity(severity: string): vscode.DiagnosticSeverity {
+  switch (severity) {
+    case "error":
+      return vscode.DiagnosticSeverity.Error;
+    case "info":
+    case "information":
+      return vscode.DiagnosticSeverity.Information;
+    case "hint":
+      return vscode.DiagnosticSeverity.Hint;
+    default:
+      return vscode.DiagnosticSeverity.Warning;
+  }
+}
+
+/**
+ * Converts an error thrown by the `ts.Query` constructor to a diagnostic.
+ * Syntax errors and unknown names carry the offset of the problem,
+ * while predicate errors are reported at the beginning of the query.
+ */
+function queryErrorToDiagnostic(
+  document: vscode.TextDocument,
+  error: unknown,
+): vscode.Diagnostic {
+  let range = new vscode.Range(0, 0, 0, 0);
+  let message = String(error);
+  if (error instanceof Error) {
+    message = error.message;
+    if ("index" in error && typeof error.index === "number") {
+      const length =
+        "length" in error && typeof error.length === "number"
+          ? error.length
+          : 0;
+      range = new vscode.Range(
+        document.positionAt(error.index),
+        document.positionAt(error.index + length),
       );
-    } else if (name !== undefined) {
-      capture = match.captures.find((capture) => capture.name === name);
     }
-    if (capture === undefined) return null;
+  }
+  const diagnostic = new vscode.Diagnostic(
+    range,
+    message,
+    vscode.DiagnosticSeverity.Error,
+  );
+  diagnostic.source = "tree-sitter";
+  return diagnostic;
+}
+
+/**
+ * Reports the captures of a highlights query,
+ * that are not mapped to a semantic token type and would therefore be ignored.
+ * Captures starting with an underscore are considered private and are skipped.
+ */
+function validateHighlightCaptures(
+  document: vscode.TextDocument,
+  query: ts.Query,
+  config: Config,
+): vscode.Diagnostic[] {
+  const text = document.getText();
+  return query.captureNames
+    .filter((name) => !name.startsWith("_"))
+    .filter(
+      (name) => !getTokenTypes().includes(mapCaptureName(config, name).type),
+    )
+    .flatMap((name) => {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const pattern = new RegExp(`@${escaped}(?![\\w.\\-$])`, "g");
+      return [...text.matchAll(pattern)].map((match) => {
+        const start = document.positionAt(match.index);
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(start, start.translate(0, match[0].length)),
+          `\`@${name}\` is not a known token type and will not be highlighted`,
+          vscode.DiagnosticSeverity.Warning,
+        );
+        diagnostic.source = "tree-sitter";
+        return diagnostic;
+      });
+    });
+}
 
-    // get language config
-    const langConfig = await this.cache.getLanguage(lang);
-    if (langConfig === undefined) return null;
+function createIndentText(
+  columns: number,
+  options: vscode.FormattingOptions,
+): string {
+  if (options.insertSpaces) {
+    return " ".repeat(columns);
+  }
+  return (
+    "\t".repeat(Math.floor(columns / options.tabSize)) +
+    " ".repeat(columns % options.tabSize)
+  );
+}
 
-    const injectionTree = langConfig.parser.parse(capture.node.text);
-    if (injectionTree === null) return null;
-    const tokens = await this.parseToTokens(
-      langConfig,
-      injectionTree,
-      capture.node.startPosition,
+/**
+ * Finds the delimiter at the given offset, i.e. the cursor is in front of, inside or behind it.
+ * If delimiters of multiple groups touch the offset, the innermost group wins.
+ */
+function findDelimiterAt(
+  groups: DelimiterGroup[],
+  offset: number,
+): { group: DelimiterGroup; index: number } | undefined {
+  let result: { group: DelimiterGroup; index: number } | undefined;
+  for (const group of groups) {
+    if (result !== undefined && group.depth <= result.group.depth) continue;
+    const index = group.delimiters.findIndex(
+      (delimiter) =>
+        delimiter.startIndex <= offset && offset <= delimiter.endIndex,
     );
-    const range = new vscode.Range(
-      convertPosition(capture.node.startPosition),
-      convertPosition(capture.node.endPosition),
+    if (index >= 0) {
+      result = { group, index };
+    }
+  }
+  return result;
+}
+
+class SemanticTokensProvider
+  implements
+    vscode.DocumentSemanticTokensProvider,
+    vscode.DocumentRangeSemanticTokensProvider
+{
+  private readonly worker: ParserWorker;
+  private readonly legend: vscode.SemanticTokensLegend;
+  // the last tokens provided for each document, to compute deltas
+  private readonly results = new Map<string, TokensResult>();
+  private nextResultId = 0;
+  private readonly onDidChangeSemanticTokensEmitter =
+    new vscode.EventEmitter<void>();
+  readonly onDidChangeSemanticTokens =
+    this.onDidChangeSemanticTokensEmitter.event;
+
+  constructor(worker: ParserWorker, legend: vscode.SemanticTokensLegend) {
+    this.worker = worker;
+    this.legend = legend;
+  }
+
+  /**
+   * Signals VSCode to request the tokens of all documents again.
+   */
+  refresh() {
+    this.results.clear();
+    this.onDidChangeSemanticTokensEmitter.fire();
+  }
+
+  removeDocument(uri: vscode.Uri) {
+    this.results.delete(uri.toString());
+  }
+
+  /**
+   * Called regularly by VSCode to provide semantic tokens for the given document.
+   * The document is parsed and queried by the worker, which returns the tokens.
+   */
+  async provideDocumentSemanticTokens(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken,
+  ) {
+    const tokens = await this.worker.getTokens(document, undefined, token);
+    return this.build(document, tokens);
+  }
+
+  /**
+   * Called by VSCode instead of `provideDocumentSemanticTokens` after the document changed.
+   * The worker only computes the tokens on edited lines or lines whose syntax changed again,
+   * and VSCode receives the difference to the previous tokens.
+   */
+  async provideDocumentSemanticTokensEdits(
+    document: vscode.TextDocument,
+    previousResultId: string,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.SemanticTokens | vscode.SemanticTokensEdits> {
+    const previous = this.results.get(document.uri.toString());
+    const tokens = await this.worker.getTokens(document, undefined, token);
+    const result = this.build(document, tokens);
+    if (previous === undefined || previous.resultId !== previousResultId) {
+      return result;
+    }
+    const edit = diffTokenData(previous.data, result.data);
+    return new vscode.SemanticTokensEdits(
+      [new vscode.SemanticTokensEdit(edit.start, edit.deleteCount, edit.data)],
+      result.resultId,
     );
-    return { range, tokens };
   }
 
   /**
-   * Matches the given injection query against the given node and returns the highlighting tokens.
-   * This also works for nested injections.
+   * Called by VSCode to highlight the visible range of a document,
+   * before the tokens for the whole document are available.
    */
-  async getInjections(
-    injectionQuery: ts.Query,
-    node: ts.Node,
-  ): Promise<Injection[]> {
-    const matches = injectionQuery.matches(node);
-    const injections = matches.map(
-      async (match) => await this.getInjection(match),
+  async provideDocumentRangeSemanticTokens(
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    token: vscode.CancellationToken,
+  ) {
+    const tokens = await this.worker.getTokens(
+      document,
+      [range.start.line, range.end.line],
+      token,
+    );
+    const builder = new vscode.SemanticTokensBuilder(this.legend);
+    tokens.forEach((token) =>
+      builder.push(convertRange(token.range), token.type, token.modifiers),
     );
-    return (await Promise.all(injections)).filter(
-      (injection): injection is Injection => injection !== null,
+    return builder.build();
+  }
+
+  /**
+   * Encodes the tokens and remembers them as the latest result for the document.
+   */
+  private build(
+    document: vscode.TextDocument,
+    tokens: Token[],
+  ): vscode.SemanticTokens {
+    const builder = new vscode.SemanticTokensBuilder(this.legend);
+    tokens.forEach((token) =>
+      builder.push(convertRange(token.range), token.type, token.modifiers),
     );
+    const resultId = `${this.nextResultId++}`;
+    const semanticTokens = builder.build(resultId);
+    this.results.set(document.uri.toString(), {
+      resultId,
+      data: semanticTokens.data,
+    });
+    return semanticTokens;
   }
 }
 
 class SelectionRangeProvider implements vscode.SelectionRangeProvider {
-  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
 
-  constructor(cache: LanguageCache) {
-    this.cache = cache;
+  constructor(worker: ParserWorker) {
+    this.worker = worker;
   }
 
   async provideSelectionRanges(
@@ -771,41 +1753,22 @@ class SelectionRangeProvider implements vscode.SelectionRangeProvider {
     positions: vscode.Position[],
     token: vscode.CancellationToken,
   ): Promise<vscode.SelectionRange[]> {
-    await this.cache.getLanguage(document.languageId);
-    const tree = this.cache.getTree(document);
-    if (tree === null) {
-      return [];
-    }
-
-    return positions
-      .map((position) => {
-        const tsPoint: ts.Point = {
-          row: position.line,
-          column: position.character,
-        };
-        let node: ts.Node | null = tree.rootNode.descendantForPosition(tsPoint);
-
-        // Collect ranges from innermost to outermost, skipping duplicates
-        const ranges: vscode.Range[] = [];
-        while (node !== null) {
-          const range = new vscode.Range(
-            convertPosition(node.startPosition),
-            convertPosition(node.endPosition),
-          );
-          if (
-            ranges.length === 0 ||
-            !range.isEqual(ranges[ranges.length - 1])
-          ) {
-            ranges.push(range);
-          }
-          node = node.parent;
-        }
+    const rangesPerPosition = await this.worker.getSelectionRanges(
+      document,
+      positions,
+      token,
+    );
 
+    return rangesPerPosition
+      .map((ranges) => {
         // Build the chain from outermost to innermost so that
         // each SelectionRange's parent is the next larger range
         let selectionRange: vscode.SelectionRange | undefined;
         for (let i = ranges.length - 1; i >= 0; i--) {
-          selectionRange = new vscode.SelectionRange(ranges[i], selectionRange);
+          selectionRange = new vscode.SelectionRange(
+            convertRange(ranges[i]),
+            selectionRange,
+          );
         }
 
         return selectionRange;
@@ -815,10 +1778,21 @@ class SelectionRangeProvider implements vscode.SelectionRangeProvider {
 }
 
 class FoldingRangeProvider implements vscode.FoldingRangeProvider {
-  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+  private readonly onDidChangeFoldingRangesEmitter =
+    new vscode.EventEmitter<void>();
+  readonly onDidChangeFoldingRanges =
+    this.onDidChangeFoldingRangesEmitter.event;
+
+  constructor(worker: ParserWorker) {
+    this.worker = worker;
+  }
 
-  constructor(cache: LanguageCache) {
-    this.cache = cache;
+  /**
+   * Signals VSCode to request the folding ranges of all documents again.
+   */
+  refresh() {
+    this.onDidChangeFoldingRangesEmitter.fire();
   }
 
   async provideFoldingRanges(
@@ -826,35 +1800,16 @@ class FoldingRangeProvider implements vscode.FoldingRangeProvider {
     context: vscode.FoldingContext,
     token: vscode.CancellationToken,
   ): Promise<vscode.FoldingRange[]> {
-    const tsLang = await this.cache.getLanguage(document.languageId);
-    if (tsLang === undefined) {
-      return [];
-    }
-    if (tsLang.foldQuery === undefined) {
-      return [];
-    }
-
-    const tree = this.cache.getTree(document);
-    if (tree === null) {
-      return [];
-    }
-
-    const matches = tsLang.foldQuery.matches(tree.rootNode);
-    const foldingRanges: vscode.FoldingRange[] = [];
-
-    for (const match of matches) {
-      if (match.captures.length <= 0) continue;
-      const firstCapture = match.captures[0];
-      const lastCapture = match.captures[match.captures.length - 1];
-      const startLine = firstCapture.node.startPosition.row;
-      const endLine = lastCapture.node.endPosition.row;
-
-      // Only create a fold if it spans at least 2 lines
-      if (endLine > startLine) {
-        const kind = this.captureNameToFoldKind(firstCapture.name);
-        foldingRanges.push(new vscode.FoldingRange(startLine, endLine, kind));
-      }
-    }
+    const foldingRanges = (
+      await this.worker.getFoldingRanges(document, token)
+    ).map(
+      (foldingRange) =>
+        new vscode.FoldingRange(
+          foldingRange.start,
+          foldingRange.end,
+          this.captureNameToFoldKind(foldingRange.name),
+        ),
+    );
 
     log(
       () =>
@@ -881,3 +1836,1689 @@ class FoldingRangeProvider implements vscode.FoldingRangeProvider {
     }
   }
 }
+
+class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
+  private readonly worker: ParserWorker;
+
+  constructor(worker: ParserWorker) {
+    this.worker = worker;
+  }
+
+  /**
+   * Provides the `@definition.*` captures of the tags query
+   * and the `@context` captures of the context query as symbols.
+   * Symbols are nested according to their ranges,
+   * i.e. a symbol becomes the child of the closest enclosing symbol.
+   * Sticky scroll shows the first lines of the symbols by default,
+   * which is why the context nodes are included.
+   */
+  async provideDocumentSymbols(
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.DocumentSymbol[]> {
+    const symbols = (await this.worker.getSymbols(document, token)).map(
+      (symbol) => this.toDocumentSymbol(symbol),
+    );
+    log(
+      () =>
+        `Provided ${symbols.length} document symbols for ${document.languageId}`,
+    );
+    return symbols;
+  }
+
+  private toDocumentSymbol(symbol: OutlineSymbol): vscode.DocumentSymbol {
+    const range = convertRange(symbol.range);
+    let selectionRange = convertRange(symbol.selectionRange);
+    // VSCode requires the selection range to be contained in the full range
+    if (!range.contains(selectionRange)) {
+      selectionRange = range;
+    }
+    const documentSymbol = new vscode.DocumentSymbol(
+      symbol.name,
+      "",
+      symbol.kind !== undefined
+        ? definitionKindToSymbolKind(symbol.kind)
+        : vscode.SymbolKind.Object,
+      range,
+      selectionRange,
+    );
+    documentSymbol.children = symbol.children.map((child) =>
+      this.toDocumentSymbol(child),
+    );
+    return documentSymbol;
+  }
+}
+
+class WorkspaceSymbolProvider
+  implements vscode.WorkspaceSymbolProvider, vscode.Disposable
+{
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+  private readonly storageUri: vscode.Uri | undefined;
+  private index = new Map<string, IndexedFile>();
+  private hashes = new Map<Config, string>();
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private persistTimeout: NodeJS.Timeout | undefined;
+  private disposed = false;
+
+  constructor(
+    cache: LanguageCache,
+    worker: ParserWorker,
+    storageUri: vscode.Uri | undefined,
+  ) {
+    this.cache = cache;
+    this.worker = worker;
+    this.storageUri = storageUri;
+  }
+
+  /**
+   * Loads the persisted index, indexes all files that changed since then
+   * and keeps the index up to date with file system watchers.
+   */
+  async initialize(configs: Config[]): Promise<void> {
+    this.index = await this.load();
+    const seen = new Set<string>();
+    for (const config of configs) {
+      const pattern = getLanguageFilePattern(config);
+      if (pattern === undefined) {
+        log(`No file extensions known for ${config.lang}, skipping indexing.`);
+        continue;
+      }
+
+      const watcher = vscode.workspace.createFileSystemWatcher(pattern);
+      watcher.onDidCreate((uri) => this.indexFile(uri, config.lang));
+      watcher.onDidChange((uri) => this.indexFile(uri, config.lang));
+      watcher.onDidDelete((uri) => this.removeFile(uri));
+      this.watchers.push(watcher);
+
+      const uris = await vscode.workspace.findFiles(pattern);
+      log(`Indexing ${uris.length} files for ${config.lang}`);
+      for (const uri of uris) {
+        if (this.disposed) return;
+        seen.add(uri.toString());
+        await this.indexFile(uri, config.lang);
+      }
+    }
+    // drop files that were deleted while the extension was not running
+    for (const uri of this.index.keys()) {
+      if (!seen.has(uri)) {
+        this.index.delete(uri);
+      }
+    }
+    this.schedulePersist();
+  }
+
+  /**
+   * Indexes the files of the language again, after its parser or query files changed.
+   * Only files, whose index was built with a different parser or tags query, are parsed again.
+   */
+  async reindex(config: Config): Promise<void> {
+    this.hashes.delete(config);
+    const pattern = getLanguageFilePattern(config);
+    if (config.tags === undefined || pattern === undefined) {
+      return;
+    }
+    const uris = await vscode.workspace.findFiles(pattern);
+    log(`Indexing ${uris.length} files for ${config.lang} again`);
+    for (const uri of uris) {
+      if (this.disposed) return;
+      await this.indexFile(uri, config.lang);
+    }
+  }
+
+  provideWorkspaceSymbols(
+    query: string,
+    token: vscode.CancellationToken,
+  ): vscode.SymbolInformation[] {
+    const symbols: vscode.SymbolInformation[] = [];
+    for (const [uri, file] of this.index) {
+      for (const symbol of file.symbols) {
+        if (!matchesSymbolQuery(symbol.name, query)) continue;
+        const [startLine, startChar, endLine, endChar] = symbol.range;
+        symbols.push(
+          new vscode.SymbolInformation(
+            symbol.name,
+            definitionKindToSymbolKind(symbol.kind),
+            symbol.containerName ?? "",
+            new vscode.Location(
+              vscode.Uri.parse(uri),
+              new vscode.Range(startLine, startChar, endLine, endChar),
+            ),
+          ),
+        );
+      }
+    }
+    log(() => `Provided ${symbols.length} workspace symbols for "${query}"`);
+    return symbols;
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.watchers.forEach((watcher) => watcher.dispose());
+    if (this.persistTimeout !== undefined) {
+      clearTimeout(this.persistTimeout);
+      this.persist();
+    }
+  }
+
+  /**
+   * Parses the file and stores its tags in the index.
+   * Files that did not change since they were last indexed are skipped.
+   */
+  private async indexFile(uri: vscode.Uri, lang: string): Promise<void> {
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      const config = findConfig(this.cache.configs, lang, uri.fsPath);
+      if (config === undefined) {
+        return;
+      }
+      const hash = this.getHash(config);
+      const key = uri.toString();
+      const indexed = this.index.get(key);
+      if (indexed?.mtime === stat.mtime && indexed.hash === hash) {
+        return;
+      }
+      if (config.tags === undefined) {
+        return;
+      }
+      const content = await vscode.workspace.fs.readFile(uri);
+      const tags = await this.worker.getTags(
+        config,
+        new TextDecoder().decode(content),
+      );
+      const symbols = tags.map((tag): IndexedSymbol => {
+        return {
+          name: tag.name,
+          kind: tag.kind,
+          containerName: tag.containerName,
+          range: [
+            tag.range.start.row,
+            tag.range.start.column,
+            tag.range.end.row,
+            tag.range.end.column,
+          ],
+        };
+      });
+      this.index.set(key, { mtime: stat.mtime, hash, symbols });
+      this.schedulePersist();
+    } catch (error) {
+      log(`Failed to index ${uri.toString()}: ${error}`);
+    }
+  }
+
+  /**
+   * Returns the hash of the parser and the tags query of the language,
+   * so files are indexed again, when one of them changed.
+   */
+  private getHash(config: Config): string {
+    let hash = this.hashes.get(config);
+    if (hash === undefined) {
+      const files = [config.parser, ...[config.tags ?? []].flat()];
+      const hasher = createHash("sha1");
+      for (const file of files) {
+        hasher.update(fs.readFileSync(file));
+      }
+      hash = hasher.digest("hex");
+      this.hashes.set(config, hash);
+    }
+    return hash;
+  }
+
+  private removeFile(uri: vscode.Uri) {
+    this.index.delete(uri.toString());
+    this.schedulePersist();
+  }
+
+  private async load(): Promise<Map<string, IndexedFile>> {
+    if (this.storageUri === undefined) {
+      return new Map();
+    }
+    try {
+      const uri = vscode.Uri.joinPath(this.storageUri, SYMBOL_INDEX_FILE);
+      const content = await vscode.workspace.fs.readFile(uri);
+      const data = JSON.parse(new TextDecoder().decode(content));
+      if (data.version !== SYMBOL_INDEX_VERSION) {
+        return new Map();
+      }
+      return new Map(Object.entries(data.files));
+    } catch {
+      return new Map();
+    }
+  }
+
+  /**
+   * Persisting the index is debounced, since watchers may fire in bursts.
+   */
+  private schedulePersist() {
+    if (this.persistTimeout !== undefined) {
+      clearTimeout(this.persistTimeout);
+    }
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = undefined;
+      this.persist();
+    }, 1000);
+  }
+
+  private persist() {
+    if (this.storageUri === undefined) {
+      return;
+    }
+    const storageUri = this.storageUri;
+    const data = JSON.stringify({
+      version: SYMBOL_INDEX_VERSION,
+      files: Object.fromEntries(this.index),
+    });
+    vscode.workspace.fs
+      .createDirectory(storageUri)
+      .then(() =>
+        vscode.workspace.fs.writeFile(
+          vscode.Uri.joinPath(storageUri, SYMBOL_INDEX_FILE),
+          new TextEncoder().encode(data),
+        ),
+      )
+      .then(
+        () => log("Persisted workspace symbol index"),
+        (error) => log(`Failed to persist workspace symbol index: ${error}`),
+      );
+  }
+}
+
+class LocalsProvider
+  implements
+    vscode.DefinitionProvider,
+    vscode.ReferenceProvider,
+    vscode.DocumentHighlightProvider
+{
+  private readonly worker: ParserWorker;
+
+  constructor(worker: ParserWorker) {
+    this.worker = worker;
+  }
+
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.Location | undefined> {
+    const resolved = await this.resolve(document, position, token);
+    if (resolved === undefined) {
+      return undefined;
+    }
+    return new vscode.Location(document.uri, resolved.definition);
+  }
+
+  async provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    context: vscode.ReferenceContext,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.Location[]> {
+    const resolved = await this.resolve(document, position, token);
+    if (resolved === undefined) {
+      return [];
+    }
+    const ranges = context.includeDeclaration
+      ? [resolved.definition, ...resolved.references]
+      : resolved.references;
+    return ranges.map((range) => new vscode.Location(document.uri, range));
+  }
+
+  async provideDocumentHighlights(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.DocumentHighlight[]> {
+    const resolved = await this.resolve(document, position, token);
+    if (resolved === undefined) {
+      return [];
+    }
+    return [
+      new vscode.DocumentHighlight(
+        resolved.definition,
+        vscode.DocumentHighlightKind.Write,
+      ),
+      ...resolved.references.map(
+        (range) =>
+          new vscode.DocumentHighlight(
+            range,
+            vscode.DocumentHighlightKind.Read,
+          ),
+      ),
+    ];
+  }
+
+  /**
+   * Finds the definition or reference at the given position
+   * and returns the definition it belongs to together with all of its references.
+   */
+  private async resolve(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+  ): Promise<
+    { definition: vscode.Range; references: vscode.Range[] } | undefined
+  > {
+    const resolved = await this.worker.getLocalReferences(
+      document,
+      position,
+      token,
+    );
+    if (resolved === undefined) {
+      return undefined;
+    }
+    return {
+      definition: convertRange(resolved.definition),
+      references: resolved.references.map((range) => convertRange(range)),
+    };
+  }
+}
+
+class DocumentDiagnostics implements vscode.Disposable {
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+  private readonly configs: Config[];
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("tree-sitter");
+  private readonly timeouts = new Map<string, NodeJS.Timeout>();
+
+  constructor(cache: LanguageCache, worker: ParserWorker, configs: Config[]) {
+    this.cache = cache;
+    this.worker = worker;
+    this.configs = configs;
+  }
+
+  /**
+   * Schedules an update of the diagnostics of the given document.
+   * Updates are debounced, so that typing doesn't trigger a walk of the tree on every keystroke.
+   */
+  update(document: vscode.TextDocument) {
+    const lang = getLanguageId(this.cache.configs, document);
+    if (!this.configs.some((config) => config.lang === lang)) {
+      return;
+    }
+    const uri = document.uri.toString();
+    const timeout = this.timeouts.get(uri);
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+    }
+    this.timeouts.set(
+      uri,
+      setTimeout(() => {
+        this.timeouts.delete(uri);
+        this.publish(document).catch((error) =>
+          log(`Failed to publish diagnostics for ${uri}: ${error}`),
+        );
+      }, 300),
+    );
+  }
+
+  remove(uri: vscode.Uri) {
+    const timeout = this.timeouts.get(uri.toString());
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+      this.timeouts.delete(uri.toString());
+    }
+    this.collection.delete(uri);
+  }
+
+  dispose() {
+    this.timeouts.forEach((timeout) => clearTimeout(timeout));
+    this.timeouts.clear();
+    this.collection.dispose();
+  }
+
+  private async publish(document: vscode.TextDocument) {
+    if (document.isClosed) {
+      return;
+    }
+    const problems = await this.worker.getProblems(document);
+    // the document might have been closed in the meantime
+    if (document.isClosed) {
+      return;
+    }
+    const diagnostics = problems.map(problemToDiagnostic);
+    this.collection.set(document.uri, diagnostics);
+    log(
+      () =>
+        `Published ${diagnostics.length} diagnostics for ${document.uri.toString()}`,
+    );
+  }
+}
+
+/**
+ * Indents lines with an indents query, when a new line or a closing bracket is typed
+ * (requires `editor.formatOnType`) and with the _Reindent Lines_ command.
+ */
+class IndentationProvider implements vscode.OnTypeFormattingEditProvider {
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+
+  constructor(cache: LanguageCache, worker: ParserWorker) {
+    this.cache = cache;
+    this.worker = worker;
+  }
+
+  async provideOnTypeFormattingEdits(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    ch: string,
+    options: vscode.FormattingOptions,
+    token: vscode.CancellationToken,
+  ): Promise<vscode.TextEdit[]> {
+    // a closing bracket only changes the indentation, if it starts the line
+    const before = document
+      .lineAt(position.line)
+      .text.slice(0, Math.max(position.character - 1, 0));
+    if (ch !== "\n" && before.trim() !== "") {
+      return [];
+    }
+    return this.reindent(document, [position.line], options, false, token);
+  }
+
+  /**
+   * Reindents the selected lines of the active editor,
+   * or the whole document if nothing is selected.
+   */
+  async reindentLines(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (editor === undefined) {
+      return;
+    }
+    const { document, selections } = editor;
+    if (this.cache.getConfig(document)?.indents === undefined) {
+      vscode.window.showInformationMessage(
+        `tree-sitter-vscode: No indents query is configured for ${getLanguageId(this.cache.configs, document)}.`,
+      );
+      return;
+    }
+
+    const rows = new Set<number>();
+    if (selections.every((selection) => selection.isEmpty)) {
+      for (let row = 0; row < document.lineCount; row++) {
+        rows.add(row);
+      }
+    } else {
+      for (const selection of selections) {
+        // a selection ending at the start of a line does not include that line
+        const end =
+          selection.end.character === 0 &&
+          selection.end.line > selection.start.line
+            ? selection.end.line - 1
+            : selection.end.line;
+        for (let row = selection.start.line; row <= end; row++) {
+          rows.add(row);
+        }
+      }
+    }
+    const options = {
+      tabSize:
+        typeof editor.options.tabSize === "number" ? editor.options.tabSize : 4,
+      insertSpaces: editor.options.insertSpaces !== false,
+    };
+    const edits = await this.reindent(
+      document,
+      [...rows].sort((a, b) => a - b),
+      options,
+      true,
+    );
+    if (edits.length > 0) {
+      await editor.edit((builder) =>
+        edits.forEach((edit) => builder.replace(edit.range, edit.newText)),
+      );
+    }
+    log(() => `Reindented ${edits.length} lines of ${document.uri.toString()}`);
+  }
+
+  /**
+   * Computes the indentation of the given lines from top to bottom,
+   * so that aligned lines follow the new indentation of the lines they are aligned to.
+   */
+  private async reindent(
+    document: vscode.TextDocument,
+    rows: number[],
+    options: vscode.FormattingOptions,
+    skipEmptyLines: boolean,
+    token?: vscode.CancellationToken,
+  ): Promise<vscode.TextEdit[]> {
+    if (this.cache.getConfig(document)?.indents === undefined) {
+      return [];
+    }
+    const indents = await this.worker.getIndents(
+      document,
+      rows,
+      options.tabSize,
+      skipEmptyLines,
+      token,
+    );
+    const edits: vscode.TextEdit[] = [];
+    for (const { row, indent } of indents) {
+      const oldText = getIndentText(document.lineAt(row).text);
+      const newText = createIndentText(indent, options);
+      if (oldText !== newText) {
+        edits.push(
+          vscode.TextEdit.replace(
+            new vscode.Range(row, 0, row, oldText.length),
+            newText,
+          ),
+        );
+      }
+    }
+    return edits;
+  }
+}
+
+/**
+ * Moves, selects and swaps the text objects of a textobjects query (e.g. `@function.outer`)
+ * and moves to the parent of the syntax node at the cursor.
+ * All commands are applied to every cursor of the active editor.
+ */
+class TextObjectCommands {
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+
+  constructor(cache: LanguageCache, worker: ParserWorker) {
+    this.cache = cache;
+    this.worker = worker;
+  }
+
+  /**
+   * Moves the cursors to the start (or end) of the next or previous text object.
+   */
+  async goTo(forward: boolean, args?: TextObjectArgs) {
+    const target = await this.getTextObjects(args);
+    if (target === undefined) {
+      return;
+    }
+    const { editor, textObjects } = target;
+    const positions = textObjects.map((textObject) =>
+      convertPosition(
+        args?.end === true
+          ? textObject.range.endPosition
+          : textObject.range.startPosition,
+      ),
+    );
+    editor.selections = editor.selections.map((selection) => {
+      const candidates = forward
+        ? positions.filter((position) => position.isAfter(selection.active))
+        : positions.filter((position) => position.isBefore(selection.active));
+      if (candidates.length === 0) {
+        return selection;
+      }
+      const position = candidates.reduce((a, b) =>
+        forward === a.isBefore(b) ? a : b,
+      );
+      return new vscode.Selection(position, position);
+    });
+    editor.revealRange(editor.selection);
+  }
+
+  /**
+   * Selects the smallest text object around each selection,
+   * or the next one, if there is none around it.
+   */
+  async select(args?: TextObjectArgs) {
+    const target = await this.getTextObjects(args);
+    if (target === undefined) {
+      return;
+    }
+    const { editor, textObjects } = target;
+    const ranges = textObjects.map((textObject) => toRange(textObject.range));
+    editor.selections = editor.selections.map((selection) => {
+      const range =
+        ranges
+          .filter((range) => range.contains(selection))
+          .reduce<
+            vscode.Range | undefined
+          >((a, b) => (a !== undefined && b.contains(a) ? a : b), undefined) ??
+        ranges.find((range) => range.start.isAfterOrEqual(selection.active));
+      if (range === undefined) {
+        return selection;
+      }
+      return new vscode.Selection(range.start, range.end);
+    });
+    editor.revealRange(editor.selection);
+  }
+
+  /**
+   * Swaps the text object at each cursor with the next or previous one, that has the same parent node.
+   * The cursors move along with their text objects.
+   */
+  async swap(forward: boolean, args?: TextObjectArgs) {
+    const target = await this.getTextObjects(args);
+    if (target === undefined) {
+      return;
+    }
+    const { editor, textObjects } = target;
+    const document = editor.document;
+    const swaps: { first: TextObject; second: TextObject }[] = [];
+    const offsets = editor.selections.map((selection) => {
+      const offset = document.offsetAt(selection.active);
+      const current = textObjects
+        .filter(
+          (textObject) =>
+            textObject.range.startIndex <= offset &&
+            offset <= textObject.range.endIndex,
+        )
+        .reduce<
+          TextObject | undefined
+        >((a, b) => (a !== undefined && a.range.endIndex - a.range.startIndex <= b.range.endIndex - b.range.startIndex ? a : b), undefined);
+      if (current === undefined) {
+        return undefined;
+      }
+      const siblings = textObjects.filter(
+        (textObject) => textObject.parent === current.parent,
+      );
+      const other = forward
+        ? siblings.find(
+            (sibling) => sibling.range.startIndex >= current.range.endIndex,
+          )
+        : siblings
+            .filter(
+              (sibling) => sibling.range.endIndex <= current.range.startIndex,
+            )
+            .pop();
+      if (other === undefined) {
+        return undefined;
+      }
+      const [first, second] = forward ? [current, other] : [other, current];
+      // the swaps of multiple cursors must not overlap
+      if (
+        swaps.some(
+          (swap) =>
+            swap.first.range.startIndex < second.range.endIndex &&
+            first.range.startIndex < swap.second.range.endIndex,
+        )
+      ) {
+        return undefined;
+      }
+      swaps.push({ first, second });
+      // swapping keeps the length of the text between both text objects,
+      // so the new offsets are not affected by the other swaps
+      const start = forward
+        ? second.range.endIndex -
+          (current.range.endIndex - current.range.startIndex)
+        : first.range.startIndex;
+      return start + offset - current.range.startIndex;
+    });
+    if (swaps.length === 0) {
+      return;
+    }
+
+    const getText = (textObject: TextObject) =>
+      document.getText(toRange(textObject.range));
+    const success = await editor.edit((builder) => {
+      for (const { first, second } of swaps) {
+        builder.replace(toRange(first.range), getText(second));
+        builder.replace(toRange(second.range), getText(first));
+      }
+    });
+    if (!success) {
+      return;
+    }
+    editor.selections = editor.selections.map((selection, i) => {
+      const offset = offsets[i];
+      if (offset === undefined) {
+        return selection;
+      }
+      const position = document.positionAt(offset);
+      return new vscode.Selection(position, position);
+    });
+    editor.revealRange(editor.selection);
+  }
+
+  /**
+   * Moves the cursors to the start of the closest named node,
+   * that contains the selection and starts before it.
+   */
+  async goToParent() {
+    const editor = vscode.window.activeTextEditor;
+    if (editor === undefined) {
+      return;
+    }
+    if (this.cache.getConfig(editor.document) === undefined) {
+      return;
+    }
+    const starts = await this.worker.getParentStarts(
+      editor.document,
+      editor.selections,
+    );
+    editor.selections = editor.selections.map((selection, i) => {
+      const start = starts[i];
+      if (start === null) {
+        return selection;
+      }
+      const position = convertPosition(start);
+      return new vscode.Selection(position, position);
+    });
+    editor.revealRange(editor.selection);
+  }
+
+  /**
+   * Collects the text objects of the active editor with the name from the arguments.
+   * Without a name, the user can pick one of the names used in the query.
+   */
+  private async getTextObjects(
+    args?: TextObjectArgs,
+  ): Promise<
+    { editor: vscode.TextEditor; textObjects: TextObject[] } | undefined
+  > {
+    const editor = vscode.window.activeTextEditor;
+    if (editor === undefined) {
+      return undefined;
+    }
+    if (this.cache.getConfig(editor.document)?.textobjects === undefined) {
+      vscode.window.showInformationMessage(
+        `tree-sitter-vscode: No textobjects query is configured for ${getLanguageId(this.cache.configs, editor.document)}.`,
+      );
+      return undefined;
+    }
+    const name =
+      args?.textObject ??
+      (await vscode.window.showQuickPick(
+        this.worker.getTextObjectNames(editor.document),
+        { placeHolder: "Text object, e.g. function.outer" },
+      ));
+    if (name === undefined) {
+      return undefined;
+    }
+    const textObjects = await this.worker.getTextObjects(editor.document, name);
+    log(() => `Found ${textObjects.length} text objects for @${name}`);
+    return { editor, textObjects };
+  }
+}
+
+class BracketHighlighter implements vscode.Disposable {
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+  private readonly configs: Config[];
+  private readonly depthDecorations = Array.from(
+    { length: BRACKET_COLORS },
+    (_, i) =>
+      vscode.window.createTextEditorDecorationType({
+        color: new vscode.ThemeColor(
+          `editorBracketHighlight.foreground${i + 1}`,
+        ),
+      }),
+  );
+  private readonly matchDecoration =
+    vscode.window.createTextEditorDecorationType({
+      backgroundColor: new vscode.ThemeColor("editorBracketMatch.background"),
+      borderColor: new vscode.ThemeColor("editorBracketMatch.border"),
+      borderStyle: "solid",
+      borderWidth: "1px",
+    });
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly groups = new Map<string, DelimiterGroup[]>();
+  private readonly timeouts = new Map<string, NodeJS.Timeout>();
+
+  constructor(cache: LanguageCache, worker: ParserWorker, configs: Config[]) {
+    this.cache = cache;
+    this.worker = worker;
+    this.configs = configs;
+    this.disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors((editors) =>
+        editors.forEach((editor) => this.decorate(editor)),
+      ),
+      vscode.window.onDidChangeTextEditorSelection((event) =>
+        this.highlightMatches(event.textEditor),
+      ),
+    );
+  }
+
+  /**
+   * Schedules an update of the bracket colors of the given document.
+   * Updates are debounced, so that typing doesn't trigger a query on every keystroke.
+   */
+  update(document: vscode.TextDocument) {
+    const lang = getLanguageId(this.cache.configs, document);
+    if (!this.configs.some((config) => config.lang === lang)) {
+      return;
+    }
+    const uri = document.uri.toString();
+    const timeout = this.timeouts.get(uri);
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+    }
+    this.timeouts.set(
+      uri,
+      setTimeout(() => {
+        this.timeouts.delete(uri);
+        this.collect(document)
+          .then(() =>
+            vscode.window.visibleTextEditors
+              .filter((editor) => editor.document === document)
+              .forEach((editor) => this.decorate(editor)),
+          )
+          .catch((error) =>
+            log(`Failed to highlight brackets for ${uri}: ${error}`),
+          );
+      }, 300),
+    );
+  }
+
+  remove(uri: vscode.Uri) {
+    const timeout = this.timeouts.get(uri.toString());
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+      this.timeouts.delete(uri.toString());
+    }
+    this.groups.delete(uri.toString());
+  }
+
+  /**
+   * Moves each cursor on a delimiter to the next delimiter of the same container,
+   * e.g. from `begin` to `end` and back.
+   * A cursor between delimiters is moved to the closing delimiter of the innermost container.
+   */
+  async jumpToMatchingBracket() {
+    const editor = vscode.window.activeTextEditor;
+    if (editor === undefined) {
+      return;
+    }
+    const document = editor.document;
+    if (this.cache.getConfig(document)?.rainbow === undefined) {
+      vscode.window.showInformationMessage(
+        `tree-sitter-vscode: No rainbow query is configured for ${getLanguageId(this.cache.configs, document)}.`,
+      );
+      return;
+    }
+    const groups = await this.collect(document);
+    editor.selections = editor.selections.map((selection) => {
+      const offset = document.offsetAt(selection.active);
+      const found = findDelimiterAt(groups, offset);
+      let target: ts.Range | undefined;
+      if (found !== undefined) {
+        const { group, index } = found;
+        target = group.delimiters[(index + 1) % group.delimiters.length];
+      } else {
+        const group = groups
+          .filter(
+            (group) =>
+              group.container.startIndex < offset &&
+              offset < group.container.endIndex,
+          )
+          .pop();
+        target = group?.delimiters[group.delimiters.length - 1];
+      }
+      if (target === undefined) {
+        return selection;
+      }
+      const position = convertPosition(target.startPosition);
+      return new vscode.Selection(position, position);
+    });
+    editor.revealRange(editor.selection);
+  }
+
+  dispose() {
+    this.timeouts.forEach((timeout) => clearTimeout(timeout));
+    this.timeouts.clear();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.depthDecorations.forEach((decoration) => decoration.dispose());
+    this.matchDecoration.dispose();
+  }
+
+  private async collect(
+    document: vscode.TextDocument,
+  ): Promise<DelimiterGroup[]> {
+    const uri = document.uri.toString();
+    if (
+      document.isClosed ||
+      this.cache.getConfig(document)?.rainbow === undefined
+    ) {
+      this.groups.delete(uri);
+      return [];
+    }
+    const groups = await this.worker.getDelimiters(document);
+    // the document might have been closed in the meantime
+    if (document.isClosed) {
+      this.groups.delete(uri);
+      return [];
+    }
+    this.groups.set(uri, groups);
+    log(() => `Found ${groups.length} bracket pairs in ${uri}`);
+    return groups;
+  }
+
+  /**
+   * Colors the delimiters of the editor by the depth of their containers.
+   */
+  private decorate(editor: vscode.TextEditor) {
+    const groups = this.groups.get(editor.document.uri.toString());
+    if (groups === undefined) {
+      this.update(editor.document);
+      return;
+    }
+    const ranges = this.depthDecorations.map((): vscode.Range[] => []);
+    for (const group of groups) {
+      ranges[group.depth % BRACKET_COLORS].push(
+        ...group.delimiters.map((delimiter) => toRange(delimiter)),
+      );
+    }
+    this.depthDecorations.forEach((decoration, i) =>
+      editor.setDecorations(decoration, ranges[i]),
+    );
+    this.highlightMatches(editor);
+  }
+
+  /**
+   * Highlights all delimiters of the containers, whose delimiters are at the cursors.
+   */
+  private highlightMatches(editor: vscode.TextEditor) {
+    const groups = this.groups.get(editor.document.uri.toString());
+    if (groups === undefined) {
+      return;
+    }
+    const ranges: vscode.Range[] = [];
+    for (const selection of editor.selections) {
+      const found = findDelimiterAt(
+        groups,
+        editor.document.offsetAt(selection.active),
+      );
+      if (found === undefined) continue;
+      ranges.push(
+        ...found.group.delimiters.map((delimiter) => toRange(delimiter)),
+      );
+    }
+    editor.setDecorations(this.matchDecoration, ranges);
+  }
+}
+
+class LanguageAssociations implements vscode.Disposable {
+  private readonly configs: Config[];
+  private readonly disposables: vscode.Disposable[] = [];
+  // the languages, that have been reported as unknown to VSCode
+  private readonly reported = new Set<string>();
+
+  constructor(configs: Config[]) {
+    this.configs = configs;
+    for (const config of configs) {
+      if (config.comments === undefined && config.brackets === undefined) {
+        continue;
+      }
+      this.disposables.push(
+        vscode.languages.setLanguageConfiguration(config.lang, {
+          comments: config.comments,
+          brackets: config.brackets,
+          autoClosingPairs: config.brackets?.map(([open, close]) => {
+            return { open, close };
+          }),
+        }),
+      );
+    }
+  }
+
+  /**
+   * Switches a document, that VSCode opened as plain text,
+   * to the first language whose file types, file name patterns or first line match it.
+   * Documents, whose language has been chosen otherwise, are left alone.
+   */
+  async open(document: vscode.TextDocument) {
+    if (document.languageId !== "plaintext") {
+      return;
+    }
+    const config = this.configs.find((config) =>
+      matchesLanguage(config, document),
+    );
+    if (config === undefined) {
+      return;
+    }
+    // VSCode only accepts the languages contributed by extensions,
+    // otherwise the providers still match the document by its file name
+    const languages = await vscode.languages.getLanguages();
+    if (!languages.includes(config.lang)) {
+      if (!this.reported.has(config.lang)) {
+        this.reported.add(config.lang);
+        log(
+          `The language ${config.lang} is not known to VSCode, so its files stay plain text`,
+        );
+      }
+      return;
+    }
+    // this reopens the document, which triggers this function again
+    await vscode.languages.setTextDocumentLanguage(document, config.lang);
+  }
+
+  dispose() {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
+
+class SyntaxTreeProvider
+  implements vscode.TreeDataProvider<SyntaxTreeElement>, vscode.Disposable
+{
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<
+    SyntaxTreeElement | undefined
+  >();
+  readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private readonly decoration = vscode.window.createTextEditorDecorationType({
+    backgroundColor: new vscode.ThemeColor("editor.rangeHighlightBackground"),
+    borderColor: new vscode.ThemeColor("editor.selectionHighlightBorder"),
+    borderStyle: "solid",
+    borderWidth: "1px",
+  });
+  private readonly disposables: vscode.Disposable[] = [];
+  private treeView: vscode.TreeView<SyntaxTreeElement> | undefined;
+  private editor: vscode.TextEditor | undefined;
+  // the syntax tree of the inspected editor, as sent by the worker
+  private root: SyntaxNode | null = null;
+  private showAnonymous = false;
+  private timeout: NodeJS.Timeout | undefined;
+
+  constructor(cache: LanguageCache, worker: ParserWorker) {
+    this.cache = cache;
+    this.worker = worker;
+  }
+
+  /**
+   * Opens the syntax tree view for the active editor
+   * and starts following the active editor and its cursor.
+   */
+  async show() {
+    if (this.treeView === undefined) {
+      this.treeView = vscode.window.createTreeView(SYNTAX_TREE_VIEW, {
+        treeDataProvider: this,
+        showCollapseAll: true,
+      });
+      this.disposables.push(
+        this.treeView,
+        this.treeView.onDidChangeSelection((event) =>
+          this.highlight(event.selection[0]),
+        ),
+        vscode.window.onDidChangeActiveTextEditor((editor) =>
+          this.setEditor(editor),
+        ),
+        vscode.window.onDidChangeTextEditorSelection((event) => {
+          if (event.textEditor === this.editor) {
+            this.revealCursor();
+          }
+        }),
+      );
+    }
+    await vscode.commands.executeCommand(
+      "setContext",
+      SYNTAX_TREE_VISIBLE_CONTEXT,
+      true,
+    );
+    await vscode.commands.executeCommand(`${SYNTAX_TREE_VIEW}.focus`);
+    await this.setEditor(vscode.window.activeTextEditor);
+  }
+
+  async toggleAnonymousNodes() {
+    this.showAnonymous = !this.showAnonymous;
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+    await this.revealCursor();
+  }
+
+  /**
+   * Schedules a refresh of the view, if the given document is being inspected.
+   */
+  update(document: vscode.TextDocument) {
+    if (this.editor?.document !== document) {
+      return;
+    }
+    if (this.timeout !== undefined) {
+      clearTimeout(this.timeout);
+    }
+    this.timeout = setTimeout(() => {
+      this.timeout = undefined;
+      this.refresh().catch((error) =>
+        log(`Failed to update the syntax tree: ${error}`),
+      );
+    }, 300);
+  }
+
+  getTreeItem(element: SyntaxTreeElement): vscode.TreeItem {
+    const { node } = element;
+    let label = node.isNamed ? node.type : `"${node.type}"`;
+    if (node.isMissing) {
+      label = `MISSING ${label}`;
+    }
+    if (node.fieldName !== null) {
+      label = `${node.fieldName}: ${label}`;
+    }
+    const hasChildren = this.getChildren(element).length > 0;
+    const item = new vscode.TreeItem(
+      label,
+      hasChildren
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None,
+    );
+    item.id = `${node.id}`;
+    const { start, end } = node.range;
+    item.description = `[${start.row}, ${start.column}] - [${end.row}, ${end.column}]`;
+    const text = this.editor?.document.getText(convertRange(node.range)) ?? "";
+    item.tooltip = text.length > 200 ? `${text.slice(0, 200)}...` : text;
+    if (node.isError || node.isMissing) {
+      item.iconPath = new vscode.ThemeIcon(
+        "error",
+        new vscode.ThemeColor("errorForeground"),
+      );
+    }
+    return item;
+  }
+
+  getChildren(element?: SyntaxTreeElement): SyntaxTreeElement[] {
+    if (element === undefined) {
+      if (this.root === null) {
+        return [];
+      }
+      return [{ node: this.root }];
+    }
+    return element.node.children
+      .filter((child) => child.isNamed || this.showAnonymous)
+      .map((child) => ({ node: child, parent: element }));
+  }
+
+  getParent(element: SyntaxTreeElement): SyntaxTreeElement | undefined {
+    return element.parent;
+  }
+
+  dispose() {
+    if (this.timeout !== undefined) {
+      clearTimeout(this.timeout);
+    }
+    this.root = null;
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.decoration.dispose();
+    this.onDidChangeTreeDataEmitter.dispose();
+    vscode.commands.executeCommand(
+      "setContext",
+      SYNTAX_TREE_VISIBLE_CONTEXT,
+      false,
+    );
+  }
+
+  private async setEditor(editor: vscode.TextEditor | undefined) {
+    if (editor === undefined) {
+      return;
+    }
+    if (
+      !this.cache.configs.some(
+        (c) => c.lang === getLanguageId(this.cache.configs, editor.document),
+      )
+    ) {
+      return;
+    }
+    this.editor?.setDecorations(this.decoration, []);
+    this.editor = editor;
+    await this.refresh();
+  }
+
+  /**
+   * Requests the syntax tree of the inspected editor from the worker and shows it.
+   */
+  private async refresh() {
+    const editor = this.editor;
+    if (editor === undefined) {
+      return;
+    }
+    const root = await this.worker.getSyntaxTree(editor.document);
+    // another editor might have been inspected in the meantime
+    if (this.editor !== editor) {
+      return;
+    }
+    this.root = root;
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+    await this.revealCursor();
+  }
+
+  /**
+   * Reveals the node at the cursor of the inspected editor in the view.
+   */
+  private async revealCursor() {
+    if (
+      this.treeView === undefined ||
+      !this.treeView.visible ||
+      this.editor === undefined ||
+      this.root === null
+    ) {
+      return;
+    }
+    const position = this.editor.selection.active;
+    // descends to the smallest node, that starts before the cursor and ends after it
+    let element: SyntaxTreeElement = { node: this.root };
+    for (;;) {
+      const parent: SyntaxTreeElement = element;
+      const child = parent.node.children.find((child) => {
+        const range = convertRange(child.range);
+        return (
+          (child.isNamed || this.showAnonymous) &&
+          range.start.isBeforeOrEqual(position) &&
+          position.isBefore(range.end)
+        );
+      });
+      if (child === undefined) break;
+      element = { node: child, parent };
+    }
+    await this.treeView.reveal(element, {
+      select: true,
+      focus: false,
+      expand: true,
+    });
+  }
+
+  /**
+   * Highlights the range of the selected node in the inspected editor.
+   */
+  private highlight(element: SyntaxTreeElement | undefined) {
+    if (this.editor === undefined) {
+      return;
+    }
+    if (element === undefined) {
+      this.editor.setDecorations(this.decoration, []);
+      return;
+    }
+    const range = convertRange(element.node.range);
+    this.editor.setDecorations(this.decoration, [range]);
+    this.editor.revealRange(
+      range,
+      vscode.TextEditorRevealType.InCenterIfOutsideViewport,
+    );
+  }
+}
+
+class QueryPlayground implements vscode.Disposable {
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("tree-sitter-query");
+  private readonly decoration = vscode.window.createTextEditorDecorationType({
+    borderColor: new vscode.ThemeColor("editorInfo.foreground"),
+    borderStyle: "dotted",
+    borderWidth: "0 0 1px 0",
+  });
+  private readonly disposables: vscode.Disposable[] = [];
+  // maps the uri of a query document to the uri of its target document
+  private readonly targets = new Map<string, vscode.Uri>();
+  private readonly ranges = new Map<string, vscode.DecorationOptions[]>();
+  private readonly timeouts = new Map<string, NodeJS.Timeout>();
+
+  constructor(cache: LanguageCache, worker: ParserWorker) {
+    this.cache = cache;
+    this.worker = worker;
+    this.disposables.push(
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.close(document),
+      ),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.decorate()),
+    );
+  }
+
+  /**
+   * Opens a scratch query document bound to the active editor.
+   */
+  async open() {
+    const target = vscode.window.activeTextEditor?.document;
+    if (
+      target === undefined ||
+      !this.cache.configs.some(
+        (config) => config.lang === getLanguageId(this.cache.configs, target),
+      )
+    ) {
+      vscode.window.showErrorMessage(
+        "The query playground requires an active editor of a configured language.",
+      );
+      return;
+    }
+    const queryDocument = await vscode.workspace.openTextDocument({
+      language: QUERY_LANGUAGE,
+      content: `; Query for ${path.basename(target.uri.path)}\n`,
+    });
+    this.targets.set(queryDocument.uri.toString(), target.uri);
+    await vscode.window.showTextDocument(queryDocument, {
+      viewColumn: vscode.ViewColumn.Beside,
+    });
+    this.update(queryDocument);
+  }
+
+  /**
+   * Schedules the evaluation of all queries affected by a change of the given document,
+   * which can either be a query document or a target document.
+   */
+  update(document: vscode.TextDocument) {
+    const uri = document.uri.toString();
+    for (const [queryUri, targetUri] of this.targets) {
+      if (queryUri !== uri && targetUri.toString() !== uri) continue;
+      const timeout = this.timeouts.get(queryUri);
+      if (timeout !== undefined) {
+        clearTimeout(timeout);
+      }
+      this.timeouts.set(
+        queryUri,
+        setTimeout(() => {
+          this.timeouts.delete(queryUri);
+          this.evaluate(queryUri).catch((error) =>
+            log(`Failed to evaluate query ${queryUri}: ${error}`),
+          );
+        }, 300),
+      );
+    }
+  }
+
+  dispose() {
+    this.timeouts.forEach((timeout) => clearTimeout(timeout));
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.collection.dispose();
+    this.decoration.dispose();
+  }
+
+  /**
+   * Compiles the query and decorates its captures in the target document, which the worker matches.
+   * Compilation errors are reported as diagnostics in the query document.
+   */
+  private async evaluate(queryUri: string) {
+    const targetUri = this.targets.get(queryUri);
+    const queryDocument = vscode.workspace.textDocuments.find(
+      (document) => document.uri.toString() === queryUri,
+    );
+    const target = vscode.workspace.textDocuments.find(
+      (document) => document.uri.toString() === targetUri?.toString(),
+    );
+    if (queryDocument === undefined || target === undefined) {
+      return;
+    }
+    const language = await this.cache.getLanguage(
+      getLanguageId(this.cache.configs, target),
+      target.uri,
+    );
+    if (language === undefined) {
+      return;
+    }
+    const source = queryDocument.getText();
+    let query: ts.Query | undefined;
+    try {
+      query = new ts.Query(language, source);
+      checkPredicates(query);
+    } catch (error) {
+      this.collection.set(queryDocument.uri, [
+        queryErrorToDiagnostic(queryDocument, error),
+      ]);
+      this.ranges.set(target.uri.toString(), []);
+      this.decorate();
+      return;
+    } finally {
+      query?.delete();
+    }
+    this.collection.set(queryDocument.uri, []);
+    const captures = await this.worker.getCaptures(target, source);
+    this.ranges.set(
+      target.uri.toString(),
+      captures.map((capture) => {
+        return {
+          range: convertRange(capture.range),
+          hoverMessage: `@${capture.name} (pattern ${capture.patternIndex})`,
+          renderOptions: {
+            after: {
+              contentText: `@${capture.name}`,
+              color: new vscode.ThemeColor("editorCodeLens.foreground"),
+              margin: "0 0 0 0.25em",
+            },
+          },
+        };
+      }),
+    );
+    this.decorate();
+    log(() => `Query playground matched ${captures.length} captures`);
+  }
+
+  private decorate() {
+    for (const editor of vscode.window.visibleTextEditors) {
+      const ranges = this.ranges.get(editor.document.uri.toString());
+      if (ranges !== undefined) {
+        editor.setDecorations(this.decoration, ranges);
+      }
+    }
+  }
+
+  private close(document: vscode.TextDocument) {
+    const uri = document.uri.toString();
+    const targetUri = this.targets.get(uri);
+    if (targetUri === undefined) {
+      return;
+    }
+    this.targets.delete(uri);
+    this.collection.delete(document.uri);
+    this.ranges.delete(targetUri.toString());
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document.uri.toString() === targetUri.toString()) {
+        editor.setDecorations(this.decoration, []);
+      }
+    }
+  }
+}
+
+class QueryLanguageSupport
+  implements vscode.CompletionItemProvider, vscode.Disposable
+{
+  private readonly cache: LanguageCache;
+  private readonly worker: ParserWorker;
+  private readonly collection =
+    vscode.languages.createDiagnosticCollection("tree-sitter-query");
+  private readonly timeouts = new Map<string, NodeJS.Timeout>();
+
+  constructor(cache: LanguageCache, worker: ParserWorker) {
+    this.cache = cache;
+    this.worker = worker;
+  }
+
+  /**
+   * Switches query files referenced by the language configs to the query language
+   * and validates them.
+   */
+  open(document: vscode.TextDocument) {
+    if (findQueryFile(this.cache.configs, document.uri) === undefined) {
+      return;
+    }
+    if (document.languageId !== QUERY_LANGUAGE) {
+      // this reopens the document, which triggers this function again
+      vscode.languages
+        .setTextDocumentLanguage(document, QUERY_LANGUAGE)
+        .then(undefined, (error) =>
+          log(
+            `Failed to switch ${document.uri} to the query language: ${error}`,
+          ),
+        );
+      return;
+    }
+    this.update(document);
+  }
+
+  /**
+   * Schedules the validation of the given document, if it is a query file.
+   */
+  update(document: vscode.TextDocument) {
+    if (findQueryFile(this.cache.configs, document.uri) === undefined) {
+      return;
+    }
+    const uri = document.uri.toString();
+    const timeout = this.timeouts.get(uri);
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+    }
+    this.timeouts.set(
+      uri,
+      setTimeout(() => {
+        this.timeouts.delete(uri);
+        this.validate(document).catch((error) =>
+          log(`Failed to validate query ${uri}: ${error}`),
+        );
+      }, 300),
+    );
+  }
+
+  remove(uri: vscode.Uri) {
+    const timeout = this.timeouts.get(uri.toString());
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+      this.timeouts.delete(uri.toString());
+    }
+    this.collection.delete(uri);
+  }
+
+  dispose() {
+    this.timeouts.forEach((timeout) => clearTimeout(timeout));
+    this.timeouts.clear();
+    this.collection.dispose();
+  }
+
+  /**
+   * Completes node types and field names of the language the query is written for,
+   * and token types for captures in highlights queries.
+   */
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    token: vscode.CancellationToken,
+    context: vscode.CompletionContext,
+  ): Promise<vscode.CompletionItem[]> {
+    const queryFile = findQueryFile(this.cache.configs, document.uri);
+    if (queryFile === undefined) {
+      return [];
+    }
+    const language = await this.cache.loadLanguage(queryFile.config);
+
+    const linePrefix = document
+      .lineAt(position.line)
+      .text.slice(0, position.character);
+    if (/@[\w.\-$]*$/.test(linePrefix)) {
+      if (queryFile.kind !== "highlights") {
+        return [];
+      }
+      return getTokenTypes().map(
+        (type) =>
+          new vscode.CompletionItem(type, vscode.CompletionItemKind.Color),
+      );
+    }
+
+    const items = new Map<string, vscode.CompletionItem>();
+    for (let id = 0; id < language.nodeTypeCount; id++) {
+      const type = language.nodeTypeForId(id);
+      if (
+        type === null ||
+        items.has(type) ||
+        !language.nodeTypeIsNamed(id) ||
+        !language.nodeTypeIsVisible(id)
+      ) {
+        continue;
+      }
+      items.set(
+        type,
+        new vscode.CompletionItem(type, vscode.CompletionItemKind.Class),
+      );
+    }
+    for (const field of language.fields) {
+      if (field === null || field.length === 0) continue;
+      const item = new vscode.CompletionItem(
+        `${field}:`,
+        vscode.CompletionItemKind.Field,
+      );
+      item.insertText = `${field}: `;
+      items.set(`${field}:`, item);
+    }
+    return [...items.values()];
+  }
+
+  private async validate(document: vscode.TextDocument) {
+    if (document.isClosed) {
+      return;
+    }
+    const queryFile = findQueryFile(this.cache.configs, document.uri);
+    if (queryFile === undefined) {
+      return;
+    }
+    const language = await this.cache.loadLanguage(queryFile.config);
+
+    const diagnostics: vscode.Diagnostic[] = [];
+    // the query tree is only available with the bundled parser for query files
+    if (
+      document.languageId === QUERY_LANGUAGE &&
+      this.cache.configs.some((config) => config.lang === QUERY_LANGUAGE)
+    ) {
+      const problems = await this.worker.getQueryProblems(
+        document,
+        queryFile.config,
+      );
+      diagnostics.push(...problems.map(problemToDiagnostic));
+    }
+    // compiling the query only reports the first error,
+    // so it is only used if all names are valid
+    if (diagnostics.length === 0) {
+      try {
+        const query = new ts.Query(language, document.getText());
+        try {
+          checkPredicates(query);
+          if (queryFile.kind === "highlights") {
+            diagnostics.push(
+              ...validateHighlightCaptures(document, query, queryFile.config),
+            );
+          }
+        } finally {
+          query.delete();
+        }
+      } catch (error) {
+        diagnostics.push(queryErrorToDiagnostic(document, error));
+      }
+    }
+    this.collection.set(document.uri, diagnostics);
+    log(
+      () =>
+        `Validated query ${document.uri.toString()} with ${diagnostics.length} problems`,
+    );
+  }
+}
+
+class LanguageFileWatcher implements vscode.Disposable {
+  private readonly watchers: vscode.FileSystemWatcher[] = [];
+  private readonly timeouts = new Map<Config, NodeJS.Timeout>();
+
+  /**
+   * Watches the parser and query files of all languages
+   * and calls `onDidChange` with the config of the language, whose files changed.
+   */
+  constructor(configs: Config[], onDidChange: (config: Config) => void) {
+    for (const config of configs) {
+      const files = [
+        config.parser,
+        ...QUERY_KINDS.flatMap((kind) => config[kind] ?? []),
+      ];
+      for (const file of files) {
+        const watcher = vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(
+            vscode.Uri.file(path.dirname(file)),
+            path.basename(file),
+          ),
+        );
+        const listener = () => this.schedule(config, onDidChange);
+        watcher.onDidCreate(listener);
+        watcher.onDidChange(listener);
+        this.watchers.push(watcher);
+      }
+    }
+  }
+
+  dispose() {
+    this.timeouts.forEach((timeout) => clearTimeout(timeout));
+    this.watchers.forEach((watcher) => watcher.dispose());
+  }
+
+  /**
+   * Changes are debounced, since building a parser
+   * usually writes the file multiple times in a row.
+   */
+  private schedule(config: Config, onDidChange: (config: Config) => void) {
+    const timeout = this.timeouts.get(config);
+    if (timeout !== undefined) {
+      clearTimeout(timeout);
+    }
+    this.timeouts.set(
+      config,
+      setTimeout(() => {
+        this.timeouts.delete(config);
+        log(`Files of ${config.lang} changed on disk`);
+        onDidChange(config);
+      }, 500),
+    );
+  }
+}
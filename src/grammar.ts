@@ -0,0 +1,127 @@
+import * as fs from "fs";
+import path from "path";
+import { Config, QUERY_KINDS, QueryFiles } from "./language";
+
+// a grammar of the `grammars` in a tree-sitter.json or of the `tree-sitter` section in a package.json
+type GrammarMetadata = Record<string, unknown>;
+
+/**
+ * Reads the metadata of the grammar directory and returns the config values of the grammar for the given language,
+ * following https://tree-sitter.github.io/tree-sitter/cli/init.html#structure-of-tree-sitterjson.
+ * Queries, that are not listed in the metadata, are looked up in the `queries` directory,
+ * e.g. `queries/folds.scm`.
+ */
+export function findGrammar(directory: string, lang: string): Partial<Config> {
+  const { grammars, packageName } = readGrammars(directory);
+  const grammar =
+    grammars.find((grammar) => getGrammarName(grammar, packageName) === lang) ??
+    grammars.find((grammar) => grammar["scope"] === `source.${lang}`) ??
+    (grammars.length === 1 ? grammars[0] : undefined);
+  if (grammar === undefined) {
+    throw new Error(`No grammar for ${lang} found in ${directory}.`);
+  }
+  const name = getGrammarName(grammar, packageName) ?? lang;
+  const grammarPath = path.resolve(
+    directory,
+    typeof grammar["path"] === "string" ? grammar["path"] : ".",
+  );
+
+  const config: Partial<Config> = {};
+  // `tree-sitter build --wasm` writes the parser to the directory it is called in
+  config.parser = [grammarPath, directory]
+    .map((dir) => path.join(dir, `tree-sitter-${name}.wasm`))
+    .find((file) => fs.existsSync(file));
+  for (const kind of QUERY_KINDS) {
+    const files = grammar[kind];
+    if (isQueryFiles(files)) {
+      config[kind] = Array.isArray(files)
+        ? files.map((file) => path.resolve(directory, file))
+        : path.resolve(directory, files);
+      continue;
+    }
+    const file = path.join(directory, "queries", `${kind}.scm`);
+    if (fs.existsSync(file)) {
+      config[kind] = file;
+    }
+  }
+  const fileTypes = grammar["file-types"];
+  if (
+    Array.isArray(fileTypes) &&
+    fileTypes.every((fileType) => typeof fileType === "string")
+  ) {
+    config.fileTypes = fileTypes;
+  }
+  const firstLine = grammar["first-line-regex"];
+  if (typeof firstLine === "string") {
+    config.firstLine = firstLine;
+  }
+  const injectionRegex = grammar["injection-regex"];
+  if (typeof injectionRegex === "string") {
+    config.injectionRegex = injectionRegex;
+  }
+  return config;
+}
+
+export function isQueryFiles(files: unknown): files is QueryFiles {
+  return (
+    typeof files === "string" ||
+    (Array.isArray(files) && files.every((file) => typeof file === "string"))
+  );
+}
+
+/**
+ * Reads the grammars from the tree-sitter.json of the directory
+ * or from the package.json used by older grammars.
+ */
+function readGrammars(directory: string): {
+  grammars: GrammarMetadata[];
+  packageName?: string;
+} {
+  const treeSitterJson = path.join(directory, "tree-sitter.json");
+  if (fs.existsSync(treeSitterJson)) {
+    const metadata = JSON.parse(fs.readFileSync(treeSitterJson, "utf-8"));
+    return { grammars: toGrammars(metadata?.grammars) };
+  }
+  const packageJson = path.join(directory, "package.json");
+  if (fs.existsSync(packageJson)) {
+    const metadata = JSON.parse(fs.readFileSync(packageJson, "utf-8"));
+    if (metadata?.["tree-sitter"] !== undefined) {
+      return {
+        grammars: toGrammars(metadata["tree-sitter"]),
+        packageName:
+          typeof metadata.name === "string" ? metadata.name : undefined,
+      };
+    }
+  }
+  throw new Error(
+    `No tree-sitter.json or package.json with a "tree-sitter" section found in ${directory}.`,
+  );
+}
+
+function toGrammars(grammars: unknown): GrammarMetadata[] {
+  if (!Array.isArray(grammars)) {
+    return [];
+  }
+  return grammars.filter(
+    (grammar) => typeof grammar === "object" && grammar !== null,
+  );
+}
+
+/**
+ * Returns the name of the grammar, which the package.json only contains
+ * as the name of the package or the subdirectory of the grammar.
+ */
+function getGrammarName(
+  grammar: GrammarMetadata,
+  packageName?: string,
+): string | undefined {
+  if (typeof grammar["name"] === "string") {
+    return grammar["name"];
+  }
+  const basename =
+    typeof grammar["path"] === "string" ? path.basename(grammar["path"]) : "";
+  if (basename !== "" && basename !== ".") {
+    return basename;
+  }
+  return packageName?.replace(/^(@[^/]+\/)?tree-sitter-/, "");
+}
@@ -0,0 +1,259 @@
+import * as ts from "web-tree-sitter";
+import { getIndentText } from "./language";
+import { matchQuery } from "./predicates";
+
+type IndentCapture = (typeof INDENT_CAPTURES)[number];
+type IndentCaptures = Record<IndentCapture, Map<number, ts.QueryProperties>>;
+export type IndentContext = {
+  lines: string[];
+  root: ts.Node;
+  indents: IndentCaptures;
+  tabSize: number;
+  // the new indentation of the lines, that have been reindented already
+  changed: Map<number, number>;
+};
+
+const INDENT_CAPTURES = [
+  "indent.begin",
+  "indent.end",
+  "indent.align",
+  "indent.dedent",
+  "indent.branch",
+  "indent.ignore",
+  "indent.auto",
+  "indent.zero",
+] as const;
+
+/**
+ * Matches the indents query against the given node
+ * and collects the nodes of each capture together with the properties of their pattern.
+ */
+export function collectIndents(
+  indentQuery: ts.Query,
+  node: ts.Node,
+): IndentCaptures {
+  const indents = Object.fromEntries(
+    INDENT_CAPTURES.map((name) => [name, new Map()]),
+  ) as IndentCaptures;
+  for (const match of matchQuery(indentQuery, node)) {
+    for (const capture of match.captures) {
+      const nodes = indents[capture.name as IndentCapture];
+      nodes?.set(capture.node.id, match.setProperties ?? {});
+    }
+  }
+  return indents;
+}
+
+/**
+ * Computes the indentation of the given line in columns, following the algorithm of nvim-treesitter.
+ * Returns `undefined` if the indentation should be kept, i.e. for `@indent.auto` and `@indent.ignore`.
+ */
+export function computeIndent(
+  context: IndentContext,
+  row: number,
+): number | undefined {
+  const { lines, root, indents, tabSize } = context;
+  const text = lines[row];
+  let node: ts.Node | null;
+  if (text.trim() === "") {
+    // an empty line is indented according to the end of the previous line
+    let previous = row - 1;
+    while (previous >= 0 && lines[previous].trim() === "") {
+      previous--;
+    }
+    if (previous < 0) {
+      return 0;
+    }
+    const previousText = lines[previous];
+    node = getNodeAt(root, previous, previousText.trimEnd().length - 1);
+    // a trailing comment should not affect the indentation
+    if (node.type.includes("comment")) {
+      const first = getNodeAt(
+        root,
+        previous,
+        getIndentText(previousText).length,
+      );
+      if (first.id !== node.id) {
+        const before = previousText.slice(0, node.startPosition.column);
+        node = getNodeAt(root, previous, before.trimEnd().length - 1);
+      }
+    }
+    if (indents["indent.end"].has(node.id)) {
+      node = getNodeAt(root, row, getIndentText(text).length);
+    }
+  } else {
+    node = getNodeAt(root, row, getIndentText(text).length);
+  }
+  if (indents["indent.zero"].has(node.id)) {
+    return 0;
+  }
+
+  let indent = 0;
+  // multiple nodes starting on the same line only indent once
+  const processedRows = new Set<number>();
+  while (node !== null) {
+    const id = node.id;
+    const startRow = node.startPosition.row;
+    const endRow = node.endPosition.row;
+    const begin = indents["indent.begin"].get(id);
+    let align = indents["indent.align"].get(id);
+    const containsRow = startRow < row && row <= endRow;
+    if (begin === undefined && containsRow) {
+      if (align === undefined && indents["indent.auto"].has(id)) {
+        return undefined;
+      }
+      if (indents["indent.ignore"].has(id)) {
+        return undefined;
+      }
+    }
+
+    const shouldProcess = !processedRows.has(startRow);
+    let isProcessed = false;
+    if (
+      shouldProcess &&
+      ((indents["indent.branch"].has(id) && startRow === row) ||
+        (indents["indent.dedent"].has(id) && startRow !== row))
+    ) {
+      indent -= tabSize;
+      isProcessed = true;
+    }
+
+    const isInError = shouldProcess && node.parent?.hasError === true;
+    if (
+      shouldProcess &&
+      begin !== undefined &&
+      (startRow !== endRow || isInError || "indent.immediate" in begin) &&
+      (startRow !== row || "indent.start_at_same_line" in begin)
+    ) {
+      indent += tabSize;
+      isProcessed = true;
+    }
+
+    // an error node takes over the alignment of its first aligned child
+    if (isInError && align === undefined) {
+      align = node.children
+        .map((child) => indents["indent.align"].get(child.id))
+        .find((properties) => properties !== undefined);
+    }
+    if (
+      shouldProcess &&
+      align !== undefined &&
+      (startRow !== endRow || isInError) &&
+      startRow !== row
+    ) {
+      const openDelimiter = align["indent.open_delimiter"];
+      const closeDelimiter = align["indent.close_delimiter"];
+      const open = openDelimiter
+        ? findDelimiter(lines, node, openDelimiter)
+        : { node, isLastInLine: false };
+      const close = closeDelimiter
+        ? findDelimiter(lines, node, closeDelimiter)
+        : { node, isLastInLine: false };
+      if (open !== undefined) {
+        const openRow = open.node.startPosition.row;
+        const closeRow = close?.node.startPosition.row;
+        const closesBefore = closeRow !== undefined && closeRow < row;
+        let isAbsolute = false;
+        if (open.isLastInLine) {
+          // a hanging indent behaves like `@indent.begin`
+          indent += tabSize;
+          if (close?.isLastInLine && closesBefore) {
+            indent = Math.max(indent - tabSize, 0);
+          }
+        } else if (
+          close?.isLastInLine &&
+          closesBefore &&
+          openRow !== closeRow
+        ) {
+          indent = Math.max(indent - tabSize, 0);
+        } else {
+          const increment = Number(align["indent.increment"] ?? 1);
+          indent = getColumn(context, open.node.startPosition) + increment;
+          isAbsolute = true;
+        }
+        // the last line is indented further, so that it differs from the following lines
+        if (
+          closeRow === row &&
+          closeRow !== openRow &&
+          "indent.avoid_last_matching_next" in align &&
+          indent <= getLineIndent(context, openRow) + tabSize
+        ) {
+          indent += tabSize;
+        }
+        isProcessed = true;
+        if (isAbsolute) {
+          return indent;
+        }
+      }
+    }
+
+    if (isProcessed) {
+      processedRows.add(startRow);
+    }
+    node = node.parent;
+  }
+  return Math.max(indent, 0);
+}
+
+function getNodeAt(root: ts.Node, row: number, column: number): ts.Node {
+  return (
+    root.descendantForPosition({ row, column: Math.max(column, 0) }) ?? root
+  );
+}
+
+/**
+ * Finds the child of the given type and checks, whether only whitespace
+ * or more delimiters of the same kind follow it on its line.
+ */
+function findDelimiter(
+  lines: string[],
+  node: ts.Node,
+  delimiter: string,
+): { node: ts.Node; isLastInLine: boolean } | undefined {
+  const child = node.children.find((child) => child.type === delimiter);
+  if (child === undefined) {
+    return undefined;
+  }
+  const text = lines[child.startPosition.row];
+  const rest =
+    child.endPosition.row === child.startPosition.row
+      ? text.slice(child.endPosition.column)
+      : "";
+  const isLastInLine = [...rest].every(
+    (char) => /\s/.test(char) || delimiter.includes(char),
+  );
+  return { node: child, isLastInLine };
+}
+
+/**
+ * Returns the indentation of the line in columns, taking already reindented lines into account.
+ */
+function getLineIndent(context: IndentContext, row: number): number {
+  return (
+    context.changed.get(row) ??
+    measureColumns(getIndentText(context.lines[row]), context.tabSize)
+  );
+}
+
+/**
+ * Returns the visual column of the position, taking already reindented lines into account.
+ */
+function getColumn(context: IndentContext, position: ts.Point): number {
+  const text = context.lines[position.row];
+  const indentText = getIndentText(text);
+  const prefix = text.slice(0, Math.max(position.column, indentText.length));
+  return (
+    getLineIndent(context, position.row) +
+    measureColumns(prefix, context.tabSize) -
+    measureColumns(indentText, context.tabSize)
+  );
+}
+
+function measureColumns(text: string, tabSize: number): number {
+  let columns = 0;
+  for (const char of text) {
+    columns =
+      char === "\t" ? columns + tabSize - (columns % tabSize) : columns + 1;
+  }
+  return columns;
+}
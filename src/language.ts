@@ -0,0 +1,509 @@
+import * as fs from "fs";
+import path from "path";
+import * as ts from "web-tree-sitter";
+import { Parser } from "web-tree-sitter";
+import { CaptureConvention, getConventionMapping } from "./conventions";
+import { checkPredicates, matchQuery } from "./predicates";
+
+type Logger = (messageOrCallback: string | (() => string)) => void;
+
+// VSCode default token types and modifiers from:
+// https://code.visualstudio.com/api/language-extensions/semantic-highlight-guide#standard-token-types-and-modifiers
+export const TOKEN_TYPES = [
+  "namespace",
+  "class",
+  "enum",
+  "interface",
+  "struct",
+  "typeParameter",
+  "type",
+  "parameter",
+  "variable",
+  "property",
+  "enumMember",
+  "decorator",
+  "event",
+  "function",
+  "method",
+  "macro",
+  "label",
+  "comment",
+  "string",
+  "keyword",
+  "number",
+  "regexp",
+  "operator",
+  // contributed in the package.json for the common capture names of nvim-treesitter
+  "attribute",
+  "boolean",
+  "character",
+  "constant",
+  "constructor",
+  "module",
+  "punctuation",
+  "tag",
+  "markup",
+];
+export const TOKEN_MODIFIERS = [
+  "declaration",
+  "definition",
+  "readonly",
+  "static",
+  "deprecated",
+  "abstract",
+  "async",
+  "modification",
+  "documentation",
+  "defaultLibrary",
+  // contributed in the package.json for the common capture names of nvim-treesitter
+  "builtin",
+  "special",
+  "bracket",
+  "delimiter",
+  "escape",
+  "heading",
+  "strong",
+  "italic",
+  "strikethrough",
+  "underline",
+  "link",
+  "raw",
+  "quote",
+  "list",
+];
+// token modifiers are encoded as a set of 32 bits
+const MAX_TOKEN_MODIFIERS = 32;
+
+// the config keys of all query files that belong to a language
+export const QUERY_KINDS = [
+  "highlights",
+  "injections",
+  "folds",
+  "tags",
+  "locals",
+  "diagnostics",
+  "indents",
+  "textobjects",
+  "context",
+  "rainbow",
+] as const;
+
+export type QueryKind = (typeof QUERY_KINDS)[number];
+// a query can be split into multiple files, which are concatenated
+export type QueryFiles = string | string[];
+// the comments and brackets like in the language-configuration.json of a VSCode extension
+export type CharacterPair = [string, string];
+export type CommentRule = {
+  lineComment?: string;
+  blockComment?: CharacterPair;
+};
+export type SemanticTokenTypeMapping = {
+  targetTokenType: string;
+  targetTokenModifiers?: string[];
+};
+export type Config = {
+  lang: string;
+  // the workspace folder, whose settings contain the config
+  folder?: string;
+  grammar?: string;
+  parser: string;
+  highlights: QueryFiles;
+  injections?: QueryFiles;
+  folds?: QueryFiles;
+  tags?: QueryFiles;
+  locals?: QueryFiles;
+  diagnostics?: QueryFiles;
+  indents?: QueryFiles;
+  textobjects?: QueryFiles;
+  context?: QueryFiles;
+  rainbow?: QueryFiles;
+  fileTypes?: string[];
+  filenamePatterns?: string[];
+  firstLine?: string;
+  comments?: CommentRule;
+  brackets?: CharacterPair[];
+  injectionRegex?: string;
+  injectionOnly: boolean;
+  syntaxErrors: boolean;
+  captureConvention?: CaptureConvention;
+  semanticTokenTypeMappings?: Record<string, SemanticTokenTypeMapping>;
+};
+export type Language = {
+  lang: string;
+  parser: Parser;
+  highlightQuery: ts.Query;
+  injectionQuery?: ts.Query;
+  foldQuery?: ts.Query;
+  tagsQuery?: ts.Query;
+  localsQuery?: ts.Query;
+  diagnosticQuery?: ts.Query;
+  indentQuery?: ts.Query;
+  textobjectsQuery?: ts.Query;
+  contextQuery?: ts.Query;
+  rainbowQuery?: ts.Query;
+  captureConvention?: CaptureConvention;
+  semanticTokenTypeMappings?: Record<string, SemanticTokenTypeMapping>;
+};
+export type LocalScope = {
+  node: ts.Node;
+  inherits: boolean;
+  definitions: ts.Node[];
+};
+export type Locals = {
+  root: LocalScope;
+  scopes: Map<number, LocalScope>;
+  definitions: Map<number, ts.Node>;
+  references: Map<number, ts.Node>;
+};
+
+let logger: Logger = () => {
+  /* empty */
+};
+let tokenTypes = TOKEN_TYPES;
+let tokenModifiers = TOKEN_MODIFIERS;
+
+/**
+ * Sets the function that receives the log messages of this module,
+ * since the main thread and the worker report them differently.
+ */
+export function setLogger(newLogger: Logger) {
+  logger = newLogger;
+}
+
+function log(messageOrCallback: string | (() => string)) {
+  logger(messageOrCallback);
+}
+
+/**
+ * Adds the custom token types and modifiers from the settings to the default ones.
+ * Like the logger, they have to be set in the main thread and in the worker.
+ */
+export function setCustomTokens(types: string[], modifiers: string[]) {
+  tokenTypes = [...new Set([...TOKEN_TYPES, ...types])];
+  tokenModifiers = [...new Set([...TOKEN_MODIFIERS, ...modifiers])];
+  if (tokenModifiers.length > MAX_TOKEN_MODIFIERS) {
+    log(
+      `Ignoring token modifiers: ${tokenModifiers.slice(MAX_TOKEN_MODIFIERS).join(", ")}`,
+    );
+    tokenModifiers = tokenModifiers.slice(0, MAX_TOKEN_MODIFIERS);
+  }
+}
+
+export function getTokenTypes(): string[] {
+  return tokenTypes;
+}
+
+export function getTokenModifiers(): string[] {
+  return tokenModifiers;
+}
+
+/**
+ * Returns the config of the language for the file.
+ * The config of the innermost workspace folder containing the file takes precedence
+ * over the configs of the user and workspace settings.
+ */
+export function findConfig(
+  configs: Config[],
+  lang: string,
+  file?: string,
+): Config | undefined {
+  let found: Config | undefined;
+  for (const config of configs) {
+    if (config.lang !== lang) continue;
+    if (config.folder === undefined) {
+      found ??= config;
+    } else if (
+      file !== undefined &&
+      isInsideFolder(config.folder, file) &&
+      (found?.folder === undefined ||
+        config.folder.length > found.folder.length)
+    ) {
+      found = config;
+    }
+  }
+  return found;
+}
+
+export function isInsideFolder(folder: string, file: string): boolean {
+  const relative = path.relative(folder, file);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+export function getIndentText(text: string): string {
+  return text.slice(0, text.length - text.trimStart().length);
+}
+
+function readQueryFiles(files: QueryFiles): string {
+  return (Array.isArray(files) ? files : [files])
+    .map((file) => fs.readFileSync(file, "utf-8"))
+    .join("\n");
+}
+
+// the loaded parsers by their file, which are reused until the file changes,
+// since web-tree-sitter can't free a loaded language
+const tsLanguages = new Map<
+  string,
+  { mtimeMs: number; language: ts.Language }
+>();
+
+/**
+ * Loads the parser of the language, without compiling any of its queries.
+ */
+export async function loadTsLanguage(config: Config): Promise<ts.Language> {
+  await Parser.init().catch();
+  const { mtimeMs } = await fs.promises.stat(config.parser);
+  const loaded = tsLanguages.get(config.parser);
+  if (loaded?.mtimeMs === mtimeMs) {
+    return loaded.language;
+  }
+  const language = await ts.Language.load(config.parser);
+  tsLanguages.set(config.parser, { mtimeMs, language });
+  return language;
+}
+
+export async function initLanguage(config: Config): Promise<Language> {
+  log(() => {
+    return `Initializing language: ${config.lang}`;
+  });
+  const lang = await loadTsLanguage(config);
+  log(`Tree-Sitter ABI version for ${config.lang} is ${lang.abiVersion}.`);
+  const parser = new Parser();
+  // the queries compiled so far, which are freed if a later one fails
+  const queries: ts.Query[] = [];
+  const compile = (files: QueryFiles) => {
+    const query = new ts.Query(lang, readQueryFiles(files));
+    queries.push(query);
+    checkPredicates(query);
+    return query;
+  };
+  try {
+    parser.setLanguage(lang);
+    return {
+      lang: config.lang,
+      parser,
+      highlightQuery: compile(config.highlights),
+      injectionQuery:
+        config.injections !== undefined
+          ? compile(config.injections)
+          : undefined,
+      foldQuery: config.folds !== undefined ? compile(config.folds) : undefined,
+      tagsQuery: config.tags !== undefined ? compile(config.tags) : undefined,
+      localsQuery:
+        config.locals !== undefined ? compile(config.locals) : undefined,
+      diagnosticQuery:
+        config.diagnostics !== undefined
+          ? compile(config.diagnostics)
+          : undefined,
+      indentQuery:
+        config.indents !== undefined ? compile(config.indents) : undefined,
+      textobjectsQuery:
+        config.textobjects !== undefined
+          ? compile(config.textobjects)
+          : undefined,
+      contextQuery:
+        config.context !== undefined ? compile(config.context) : undefined,
+      rainbowQuery:
+        config.rainbow !== undefined ? compile(config.rainbow) : undefined,
+      captureConvention: config.captureConvention,
+      semanticTokenTypeMappings: config.semanticTokenTypeMappings,
+    };
+  } catch (error) {
+    queries.forEach((query) => query.delete());
+    parser.delete();
+    throw error;
+  }
+}
+
+/**
+ * Frees the parser and the queries of a language, that is not used anymore.
+ */
+export function deleteLanguage(language: Language) {
+  language.parser.delete();
+  for (const query of [
+    language.highlightQuery,
+    language.injectionQuery,
+    language.foldQuery,
+    language.tagsQuery,
+    language.localsQuery,
+    language.diagnosticQuery,
+    language.indentQuery,
+    language.textobjectsQuery,
+    language.contextQuery,
+    language.rainbowQuery,
+  ]) {
+    query?.delete();
+  }
+}
+
+/**
+ * Matches the locals query against the given node and collects
+ * the scopes, definitions and references, following the conventions from
+ * https://tree-sitter.github.io/tree-sitter/3-syntax-highlighting.html#local-variables.
+ */
+export function collectLocals(localsQuery: ts.Query, node: ts.Node): Locals {
+  const root: LocalScope = { node, inherits: true, definitions: [] };
+  const locals: Locals = {
+    root,
+    scopes: new Map([[node.id, root]]),
+    definitions: new Map(),
+    references: new Map(),
+  };
+  const matches = matchQuery(localsQuery, node);
+  // collect the scopes first, so that definitions can be assigned to them
+  for (const match of matches) {
+    const inherits = match.setProperties?.["local.scope-inherits"] !== "false";
+    for (const capture of match.captures) {
+      if (capture.name !== "local.scope") continue;
+      const scope = locals.scopes.get(capture.node.id);
+      if (scope !== undefined) {
+        scope.inherits = scope.inherits && inherits;
+      } else {
+        locals.scopes.set(capture.node.id, {
+          node: capture.node,
+          inherits,
+          definitions: [],
+        });
+      }
+    }
+  }
+  for (const match of matches) {
+    for (const capture of match.captures) {
+      if (
+        capture.name === "local.definition" ||
+        capture.name.startsWith("local.definition.")
+      ) {
+        if (locals.definitions.has(capture.node.id)) continue;
+        locals.definitions.set(capture.node.id, capture.node);
+        getLocalScope(locals, capture.node).definitions.push(capture.node);
+      } else if (capture.name === "local.reference") {
+        locals.references.set(capture.node.id, capture.node);
+      }
+    }
+  }
+  // definitions are often also matched by a generic reference pattern
+  for (const id of locals.definitions.keys()) {
+    locals.references.delete(id);
+  }
+  return locals;
+}
+
+/**
+ * Returns the innermost scope, that contains the given node.
+ * A scope node is not considered to be contained in itself.
+ */
+function getLocalScope(locals: Locals, node: ts.Node): LocalScope {
+  let parent = node.parent;
+  while (parent !== null) {
+    const scope = locals.scopes.get(parent.id);
+    if (scope !== undefined) {
+      return scope;
+    }
+    parent = parent.parent;
+  }
+  return locals.root;
+}
+
+/**
+ * Resolves a reference to its definition by walking up the scopes.
+ * In each scope the closest preceding definition with the same name wins,
+ * like in tree-sitter, which ignores definitions following the reference.
+ */
+export function findLocalDefinition(
+  locals: Locals,
+  reference: ts.Node,
+): ts.Node | undefined {
+  const name = reference.text;
+  let scope: LocalScope | undefined = getLocalScope(locals, reference);
+  while (scope !== undefined) {
+    const preceding = scope.definitions.filter(
+      (definition) =>
+        definition.text === name &&
+        definition.startIndex <= reference.startIndex,
+    );
+    if (preceding.length > 0) {
+      return preceding[preceding.length - 1];
+    }
+    if (scope === locals.root || !scope.inherits) {
+      break;
+    }
+    scope = getLocalScope(locals, scope.node);
+  }
+  return undefined;
+}
+
+/**
+ * Maps a capture name to a token type and modifiers,
+ * taking the configured `semanticTokenTypeMappings` and `captureConvention` into account.
+ */
+export function mapCaptureName(
+  lang: Pick<Language, "captureConvention" | "semanticTokenTypeMappings">,
+  name: string,
+): { type: string; modifiers: string[] } {
+  // Store the original capture name before splitting
+  const originalCaptureName = name;
+  let { type, modifiers: modifiers } = parseCaptureName(name);
+
+  // First check if we have a mapping for the original unsplit name
+  if (
+    lang.semanticTokenTypeMappings &&
+    Object.prototype.hasOwnProperty.call(
+      lang.semanticTokenTypeMappings,
+      originalCaptureName,
+    )
+  ) {
+    const mapping = lang.semanticTokenTypeMappings[originalCaptureName];
+
+    type = mapping.targetTokenType;
+    modifiers = mapping.targetTokenModifiers ?? [];
+
+    log(() => {
+      return `Applied type mapping for original name: ${originalCaptureName} → ${mapping.targetTokenType}${
+        mapping.targetTokenModifiers && mapping.targetTokenModifiers.length > 0
+          ? ` with modifiers: ${mapping.targetTokenModifiers.join(", ")}`
+          : ""
+      }`;
+    });
+  }
+  // If no mapping for the full name, check for just the type
+  else if (
+    lang.semanticTokenTypeMappings &&
+    Object.prototype.hasOwnProperty.call(lang.semanticTokenTypeMappings, type)
+  ) {
+    const mapping = lang.semanticTokenTypeMappings[type];
+
+    type = mapping.targetTokenType;
+    modifiers = mapping.targetTokenModifiers ?? [];
+
+    log(() => {
+      return `Applied type mapping for base type: ${type} → ${mapping.targetTokenType}${
+        mapping.targetTokenModifiers && mapping.targetTokenModifiers.length > 0
+          ? ` with modifiers: ${mapping.targetTokenModifiers.join(", ")}`
+          : ""
+      }`;
+    });
+  }
+  // Otherwise use the mapping of the configured capture convention
+  else if (lang.captureConvention !== undefined) {
+    const mapping = getConventionMapping(
+      lang.captureConvention,
+      originalCaptureName,
+    );
+    if (mapping !== undefined) {
+      type = mapping.targetTokenType;
+      modifiers = mapping.targetTokenModifiers ?? [];
+    }
+  }
+
+  return { type, modifiers };
+}
+
+function parseCaptureName(name: string): { type: string; modifiers: string[] } {
+  const parts = name.split(".");
+  if (parts.length === 0) {
+    throw new Error("Capture name is empty.");
+  } else if (parts.length === 1) {
+    return { type: parts[0], modifiers: [] };
+  } else {
+    return { type: parts[0], modifiers: parts.slice(1) };
+  }
+}
@@ -0,0 +1,508 @@
+import * as ts from "web-tree-sitter";
+
+/**
+ * A capture whose range or text might have been changed by a directive.
+ */
+export type QueryCapture = ts.QueryCapture & {
+  /** set by `#offset!` and `#trim!` */
+  range?: ts.Range;
+  /** set by `#gsub!` */
+  text?: string;
+};
+export type QueryMatch = Omit<ts.QueryMatch, "captures"> & {
+  captures: QueryCapture[];
+};
+
+// `#eq?`, `#match?`, `#any-of?`, `#not-any-of?`, `#is?`, `#is-not?` and `#set!`
+// are handled by web-tree-sitter, everything else ends up in `query.predicates`.
+// The minimum and maximum number of string arguments after the capture.
+const PREDICATES: Record<string, [number, number]> = {
+  "lua-match?": [1, 1],
+  "has-parent?": [1, Infinity],
+  "has-ancestor?": [1, Infinity],
+};
+const DIRECTIVES: Record<string, [number, number]> = {
+  "offset!": [4, 4],
+  "gsub!": [2, 2],
+  "trim!": [0, 4],
+};
+
+// Lua character classes, see https://www.lua.org/manual/5.1/manual.html#5.4.1
+const LUA_CLASSES: Record<string, string> = {
+  a: "A-Za-z",
+  c: "\\x00-\\x1f\\x7f",
+  d: "0-9",
+  g: "!-~",
+  l: "a-z",
+  p: "!-/:-@\\[-`{-~",
+  s: "\\t-\\r ",
+  u: "A-Z",
+  w: "A-Za-z0-9",
+  x: "A-Fa-f0-9",
+};
+
+const regExpCache = new Map<string, RegExp>();
+
+/**
+ * Checks the arguments of the predicates and directives,
+ * that are handled by {@link matchQuery}, so that errors show up when the query is loaded.
+ * The errors are worded like the ones of web-tree-sitter.
+ */
+export function checkPredicates(query: ts.Query) {
+  for (const predicates of query.predicates) {
+    for (const { operator, operands } of predicates) {
+      const negated = operator.startsWith("not-");
+      const name = negated ? operator.slice(4) : operator;
+      const counts = negated
+        ? PREDICATES[name]
+        : (PREDICATES[name] ?? DIRECTIVES[name]);
+      if (counts === undefined) continue;
+      const [first, ...rest] = operands;
+      const [min, max] = counts;
+      if (first === undefined || first.type !== "capture") {
+        throw new Error(
+          `First argument of \`#${operator}\` predicate must be a capture.`,
+        );
+      }
+      if (rest.length < min || rest.length > max) {
+        const expected = min === max ? `${min}` : `${min} to ${max}`;
+        throw new Error(
+          `Wrong number of arguments to \`#${operator}\` predicate. Expected ${expected}, got ${rest.length}.`,
+        );
+      }
+      const values = rest.map((operand) => {
+        if (operand.type !== "string") {
+          throw new Error(
+            `Arguments to \`#${operator}\` predicate must be strings.`,
+          );
+        }
+        return operand.value;
+      });
+      if (name === "offset!" || name === "trim!") {
+        if (!values.every((value) => /^-?\d+$/.test(value))) {
+          throw new Error(
+            `Arguments to \`#${operator}\` predicate must be integers.`,
+          );
+        }
+        if (name === "trim!" && values.length !== 0 && values.length !== 4) {
+          throw new Error(
+            `Wrong number of arguments to \`#${operator}\` predicate. Expected 0 or 4, got ${values.length}.`,
+          );
+        }
+      } else if (name === "lua-match?" || name === "gsub!") {
+        luaPatternToRegExp(values[0]);
+      }
+    }
+  }
+}
+
+/**
+ * Matches the query like `query.matches`, but also applies the predicates and directives
+ * used by nvim-treesitter, which web-tree-sitter does not know:
+ * `#lua-match?`, `#has-parent?` and `#has-ancestor?` (and their `#not-` variants) filter the matches,
+ * `#offset!`, `#trim!` and `#gsub!` change the range or text of the captures.
+ * As in Neovim, all predicates are tested before the directives are applied.
+ */
+export function matchQuery(
+  query: ts.Query,
+  node: ts.Node,
+  options?: ts.QueryOptions,
+): QueryMatch[] {
+  return query.matches(node, options).flatMap((match) => {
+    const predicates = query.predicates[match.patternIndex];
+    if (predicates.length === 0) {
+      return [match];
+    }
+    if (!predicates.every((predicate) => testPredicate(predicate, match))) {
+      return [];
+    }
+    const captures: QueryCapture[] = match.captures.map((capture) => ({
+      ...capture,
+    }));
+    for (const predicate of predicates) {
+      applyDirective(predicate, captures);
+    }
+    return [{ ...match, captures }];
+  });
+}
+
+/**
+ * Returns the range of the capture, taking `#offset!` and `#trim!` into account.
+ */
+export function getCaptureRange(capture: QueryCapture): ts.Range {
+  return capture.range ?? capture.node;
+}
+
+/**
+ * Returns the text of the capture, taking `#gsub!` into account.
+ */
+export function getCaptureText(capture: QueryCapture): string {
+  return capture.text ?? getSourceText(capture.node, getCaptureRange(capture));
+}
+
+function testPredicate(
+  predicate: ts.QueryPredicate,
+  match: ts.QueryMatch,
+): boolean {
+  const negated = predicate.operator.startsWith("not-");
+  const operator = negated ? predicate.operator.slice(4) : predicate.operator;
+  const [first, ...rest] = predicate.operands;
+  if (!(operator in PREDICATES) || first?.type !== "capture") {
+    return true;
+  }
+  const values = rest.map((operand) =>
+    operand.type === "string" ? operand.value : operand.name,
+  );
+
+  let test: (node: ts.Node) => boolean;
+  switch (operator) {
+    case "lua-match?": {
+      const regExp = luaPatternToRegExp(values[0]);
+      test = (node) => regExp.test(node.text);
+      break;
+    }
+    case "has-parent?":
+      test = (node) =>
+        node.parent !== null && values.includes(node.parent.type);
+      break;
+    case "has-ancestor?":
+      test = (node) => {
+        for (
+          let parent = node.parent;
+          parent !== null;
+          parent = parent.parent
+        ) {
+          if (values.includes(parent.type)) return true;
+        }
+        return false;
+      };
+      break;
+    default:
+      return true;
+  }
+  // captures, which are not part of the match, do not fail the predicate
+  return match.captures
+    .filter((capture) => capture.name === first.name)
+    .every((capture) => test(capture.node) !== negated);
+}
+
+function applyDirective(
+  predicate: ts.QueryPredicate,
+  captures: QueryCapture[],
+) {
+  const [first, ...rest] = predicate.operands;
+  if (!(predicate.operator in DIRECTIVES) || first?.type !== "capture") {
+    return;
+  }
+  const values = rest.map((operand) =>
+    operand.type === "string" ? operand.value : operand.name,
+  );
+  for (const capture of captures) {
+    if (capture.name !== first.name) continue;
+    switch (predicate.operator) {
+      case "offset!":
+        capture.range = offsetRange(
+          capture.node,
+          getCaptureRange(capture),
+          values.map(Number),
+        );
+        break;
+      case "trim!":
+        capture.range = trimRange(
+          capture.node,
+          getCaptureRange(capture),
+          values.length === 4 ? values.map((value) => value !== "0") : [],
+        );
+        break;
+      case "gsub!": {
+        const regExp = new RegExp(luaPatternToRegExp(values[0]).source, "g");
+        capture.text = getCaptureText(capture).replace(
+          regExp,
+          luaReplacementToString(values[1]),
+        );
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Moves the start and end of the range by the given rows and columns like Neovim's `#offset!`.
+ */
+function offsetRange(
+  node: ts.Node,
+  range: ts.Range,
+  [startRow, startColumn, endRow, endColumn]: number[],
+): ts.Range {
+  const root = node.tree.rootNode;
+  const move = (
+    index: number,
+    point: ts.Point,
+    rows: number,
+    columns: number,
+  ) => {
+    const position = { row: point.row + rows, column: point.column + columns };
+    const newIndex =
+      rows === 0 ? index + columns : pointToIndex(root, position);
+    return {
+      index: Math.min(Math.max(newIndex, root.startIndex), root.endIndex),
+      position,
+    };
+  };
+  const start = move(
+    range.startIndex,
+    range.startPosition,
+    startRow,
+    startColumn,
+  );
+  const end = move(range.endIndex, range.endPosition, endRow, endColumn);
+  // the range must not end before it starts
+  if (end.index < start.index) {
+    return {
+      startIndex: start.index,
+      startPosition: start.position,
+      endIndex: start.index,
+      endPosition: start.position,
+    };
+  }
+  return {
+    startIndex: start.index,
+    startPosition: start.position,
+    endIndex: end.index,
+    endPosition: end.position,
+  };
+}
+
+/**
+ * Removes whitespace from the range like Neovim's `#trim!`.
+ * The flags stand for trimming blank lines at the start, whitespace at the start,
+ * blank lines at the end and whitespace at the end.
+ * Without flags only blank lines at the end are removed.
+ */
+function trimRange(node: ts.Node, range: ts.Range, flags: boolean[]): ts.Range {
+  const [startLines, startChars, endLines, endChars] =
+    flags.length === 4 ? flags : [false, false, true, false];
+  const text = getSourceText(node, range);
+  let start = 0;
+  let end = text.length;
+  if (startChars) {
+    while (start < end && /\s/.test(text[start])) start++;
+  } else if (startLines) {
+    for (;;) {
+      const newline = text.indexOf("\n", start);
+      if (newline === -1 || newline >= end) break;
+      if (text.slice(start, newline).trim() !== "") break;
+      start = newline + 1;
+    }
+  }
+  if (endChars) {
+    while (end > start && /\s/.test(text[end - 1])) end--;
+  } else if (endLines) {
+    for (;;) {
+      const newline = text.lastIndexOf("\n", end - 1);
+      if (newline === -1 || newline < start) break;
+      if (text.slice(newline + 1, end).trim() !== "") break;
+      end = newline > 0 && text[newline - 1] === "\r" ? newline - 1 : newline;
+    }
+  }
+  return {
+    startIndex: range.startIndex + start,
+    startPosition: advancePoint(range.startPosition, text.slice(0, start)),
+    endIndex: range.startIndex + end,
+    endPosition: advancePoint(range.startPosition, text.slice(0, end)),
+  };
+}
+
+/**
+ * Returns the text of the document within the range.
+ * Only ranges outside of the node need the text of the whole tree.
+ */
+function getSourceText(node: ts.Node, range: ts.Range): string {
+  if (range.startIndex >= node.startIndex && range.endIndex <= node.endIndex) {
+    return node.text.slice(
+      range.startIndex - node.startIndex,
+      range.endIndex - node.startIndex,
+    );
+  }
+  const root = node.tree.rootNode;
+  return root.text.slice(
+    range.startIndex - root.startIndex,
+    range.endIndex - root.startIndex,
+  );
+}
+
+function pointToIndex(root: ts.Node, point: ts.Point): number {
+  const text = root.text;
+  let index = 0;
+  for (let row = root.startPosition.row; row < point.row; row++) {
+    const newline = text.indexOf("\n", index);
+    if (newline === -1) return root.endIndex;
+    index = newline + 1;
+  }
+  const column =
+    point.row === root.startPosition.row
+      ? point.column - root.startPosition.column
+      : point.column;
+  return root.startIndex + index + column;
+}
+
+function advancePoint(point: ts.Point, text: string): ts.Point {
+  const lines = text.split("\n");
+  if (lines.length === 1) {
+    return { row: point.row, column: point.column + text.length };
+  }
+  return {
+    row: point.row + lines.length - 1,
+    column: lines[lines.length - 1].length,
+  };
+}
+
+/**
+ * Translates a Lua pattern to a regular expression.
+ * Balanced matches (`%b`) are not supported.
+ */
+export function luaPatternToRegExp(pattern: string): RegExp {
+  const cached = regExpCache.get(pattern);
+  if (cached !== undefined) {
+    return cached;
+  }
+  let source = "";
+  // whether the last item can be repeated
+  let quantifiable = false;
+  let i = 0;
+  while (i < pattern.length) {
+    const char = pattern[i];
+    if (char === "^" && i === 0) {
+      source += "^";
+      quantifiable = false;
+      i++;
+    } else if (char === "$" && i === pattern.length - 1) {
+      source += "$";
+      i++;
+    } else if (char === "%") {
+      const next = pattern[i + 1];
+      if (next === undefined) {
+        throw new Error(`Malformed Lua pattern "${pattern}" (ends with '%').`);
+      } else if (next === "b") {
+        throw new Error(
+          `Balanced matches (%b) in Lua pattern "${pattern}" are not supported.`,
+        );
+      } else if (next === "f") {
+        // frontier: the previous character is not in the set, the next one is
+        if (pattern[i + 2] !== "[") {
+          throw new Error(
+            `Missing '[' after '%f' in Lua pattern "${pattern}".`,
+          );
+        }
+        const [set, end] = parseLuaSet(pattern, i + 2);
+        source += `(?<!${set})(?=${set})`;
+        quantifiable = false;
+        i = end;
+      } else if (/[1-9]/.test(next)) {
+        source += `\\${next}`;
+        quantifiable = false;
+        i += 2;
+      } else {
+        source += luaClassToRegExp(next, false);
+        quantifiable = true;
+        i += 2;
+      }
+    } else if (char === "[") {
+      const [set, end] = parseLuaSet(pattern, i);
+      source += set;
+      quantifiable = true;
+      i = end;
+    } else if ("*+?-".includes(char) && quantifiable) {
+      source += char === "-" ? "*?" : char;
+      quantifiable = false;
+      i++;
+    } else if (char === ".") {
+      source += "[\\s\\S]";
+      quantifiable = true;
+      i++;
+    } else if (char === "(" || char === ")") {
+      source += char;
+      quantifiable = false;
+      i++;
+    } else {
+      source += escapeRegExp(char);
+      quantifiable = true;
+      i++;
+    }
+  }
+  const regExp = new RegExp(source);
+  regExpCache.set(pattern, regExp);
+  return regExp;
+}
+
+/**
+ * Translates the set starting at the given index and returns it together with the index after it.
+ */
+function parseLuaSet(pattern: string, start: number): [string, number] {
+  let i = start + 1;
+  let source = "[";
+  if (pattern[i] === "^") {
+    source += "^";
+    i++;
+  }
+  // a closing bracket at the beginning is part of the set
+  if (pattern[i] === "]") {
+    source += "\\]";
+    i++;
+  }
+  while (i < pattern.length && pattern[i] !== "]") {
+    const char = pattern[i];
+    if (char === "%") {
+      const next = pattern[i + 1];
+      if (next === undefined) break;
+      source += luaClassToRegExp(next, true);
+      i += 2;
+    } else if (char === "-" && i > start + 1 && pattern[i + 1] !== "]") {
+      source += "-";
+      i++;
+    } else {
+      source += escapeRegExp(char);
+      i++;
+    }
+  }
+  if (i >= pattern.length) {
+    throw new Error(`Malformed Lua pattern "${pattern}" (missing ']').`);
+  }
+  return [source + "]", i + 1];
+}
+
+function luaClassToRegExp(char: string, inSet: boolean): string {
+  const lower = char.toLowerCase();
+  const chars = LUA_CLASSES[lower];
+  if (chars === undefined) {
+    // an escaped character
+    return escapeRegExp(char);
+  }
+  if (char === lower) {
+    return inSet ? chars : `[${chars}]`;
+  }
+  // the complement of a class can not be nested in a set
+  if (inSet) {
+    throw new Error(
+      `The class %${char} is not supported inside of a set in Lua patterns.`,
+    );
+  }
+  return `[^${chars}]`;
+}
+
+/**
+ * Translates the replacement of `#gsub!`, where `%1` refers to a capture group,
+ * to the format of `String.replace`.
+ */
+export function luaReplacementToString(replacement: string): string {
+  return replacement.replace(/\$|%(.)/g, (match, char: string | undefined) => {
+    if (char === undefined) return "$$";
+    if (char === "0") return "$&";
+    if (/[1-9]/.test(char)) return `$${char}`;
+    return char === "$" ? "$$" : char;
+  });
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[\\^$.*+?()[\]{}|/-]/g, "\\$&");
+}
@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import { getConventionMapping } from "../conventions";
+
+suite("getConventionMapping", () => {
+  test("returns the mapping of the capture name", () => {
+    assert.deepStrictEqual(getConventionMapping("nvim", "variable.member"), {
+      targetTokenType: "property",
+    });
+    assert.deepStrictEqual(getConventionMapping("tree-sitter", "escape"), {
+      targetTokenType: "string",
+      targetTokenModifiers: ["escape"],
+    });
+  });
+
+  test("returns the mapping of the longest prefix", () => {
+    assert.deepStrictEqual(
+      getConventionMapping("nvim", "function.method.call"),
+      { targetTokenType: "method" },
+    );
+    assert.deepStrictEqual(
+      getConventionMapping("helix", "constant.character.escape.unicode"),
+      { targetTokenType: "string", targetTokenModifiers: ["escape"] },
+    );
+    assert.deepStrictEqual(
+      getConventionMapping("helix", "constant.character.other"),
+      { targetTokenType: "character" },
+    );
+  });
+
+  test("uses the mappings of the given convention", () => {
+    assert.deepStrictEqual(
+      getConventionMapping("helix", "variable.other.member"),
+      { targetTokenType: "property" },
+    );
+    assert.strictEqual(
+      getConventionMapping("nvim", "variable.other.member"),
+      undefined,
+    );
+  });
+
+  test("returns undefined for captures without a mapping", () => {
+    assert.strictEqual(getConventionMapping("nvim", "variable"), undefined);
+    assert.strictEqual(
+      getConventionMapping("nvim", "keyword.return"),
+      undefined,
+    );
+    // only the prefixes of the name are looked up, not its parts
+    assert.strictEqual(
+      getConventionMapping("nvim", "string.variable.member"),
+      undefined,
+    );
+  });
+
+  test("ignores the properties of objects", () => {
+    assert.strictEqual(getConventionMapping("nvim", "constructor"), undefined);
+    assert.strictEqual(
+      getConventionMapping("helix", "toString.call"),
+      undefined,
+    );
+  });
+});
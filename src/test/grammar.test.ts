@@ -0,0 +1,140 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import path from "path";
+import { findGrammar } from "../grammar";
+
+let directory: string;
+
+/**
+ * Creates the files with the given contents in the grammar directory.
+ */
+function writeFiles(files: Record<string, string>) {
+  for (const [file, content] of Object.entries(files)) {
+    const filePath = path.join(directory, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+}
+
+suite("findGrammar", () => {
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "tree-sitter-vscode-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("reads the grammar from a tree-sitter.json", () => {
+    writeFiles({
+      "tree-sitter.json": JSON.stringify({
+        grammars: [
+          {
+            name: "foo",
+            scope: "source.foo",
+            "file-types": ["foo", "fooz"],
+            "first-line-regex": "^#!.*foo",
+            "injection-regex": "^foo$",
+            highlights: "queries/foo/highlights.scm",
+          },
+        ],
+      }),
+      "tree-sitter-foo.wasm": "",
+      "queries/foo/highlights.scm": "",
+      "queries/folds.scm": "",
+    });
+    assert.deepStrictEqual(findGrammar(directory, "foo"), {
+      parser: path.join(directory, "tree-sitter-foo.wasm"),
+      highlights: path.join(directory, "queries", "foo", "highlights.scm"),
+      folds: path.join(directory, "queries", "folds.scm"),
+      fileTypes: ["foo", "fooz"],
+      firstLine: "^#!.*foo",
+      injectionRegex: "^foo$",
+    });
+  });
+
+  test("selects the grammar by its name or scope", () => {
+    writeFiles({
+      "tree-sitter.json": JSON.stringify({
+        grammars: [
+          {
+            name: "typescript",
+            path: "typescript",
+            scope: "source.ts",
+            highlights: ["queries/highlights.scm", "queries/ts.scm"],
+          },
+          {
+            name: "tsx",
+            path: "tsx",
+            scope: "source.tsx",
+            highlights: ["queries/highlights.scm", "queries/tsx.scm"],
+          },
+        ],
+      }),
+      "tsx/tree-sitter-tsx.wasm": "",
+    });
+    assert.deepStrictEqual(findGrammar(directory, "tsx"), {
+      parser: path.join(directory, "tsx", "tree-sitter-tsx.wasm"),
+      highlights: [
+        path.join(directory, "queries", "highlights.scm"),
+        path.join(directory, "queries", "tsx.scm"),
+      ],
+    });
+    assert.deepStrictEqual(findGrammar(directory, "ts").highlights, [
+      path.join(directory, "queries", "highlights.scm"),
+      path.join(directory, "queries", "ts.scm"),
+    ]);
+    assert.throws(
+      () => findGrammar(directory, "javascript"),
+      /No grammar for javascript found/,
+    );
+  });
+
+  test("uses the only grammar regardless of its name", () => {
+    writeFiles({
+      "tree-sitter.json": JSON.stringify({ grammars: [{ name: "foo" }] }),
+      "tree-sitter-foo.wasm": "",
+    });
+    assert.deepStrictEqual(findGrammar(directory, "bar"), {
+      parser: path.join(directory, "tree-sitter-foo.wasm"),
+    });
+  });
+
+  test("reads the grammar from the package.json of older grammars", () => {
+    writeFiles({
+      "package.json": JSON.stringify({
+        name: "@example/tree-sitter-foo",
+        "tree-sitter": [{ scope: "source.foo", "file-types": ["foo"] }],
+      }),
+      "tree-sitter-foo.wasm": "",
+      "queries/highlights.scm": "",
+    });
+    assert.deepStrictEqual(findGrammar(directory, "foo"), {
+      parser: path.join(directory, "tree-sitter-foo.wasm"),
+      highlights: path.join(directory, "queries", "highlights.scm"),
+      fileTypes: ["foo"],
+    });
+  });
+
+  test("leaves out a parser that has not been built", () => {
+    writeFiles({
+      "tree-sitter.json": JSON.stringify({ grammars: [{ name: "foo" }] }),
+    });
+    assert.deepStrictEqual(findGrammar(directory, "foo"), {
+      parser: undefined,
+    });
+  });
+
+  test("rejects directories without grammar metadata", () => {
+    assert.throws(
+      () => findGrammar(directory, "foo"),
+      /No tree-sitter.json or package.json/,
+    );
+    writeFiles({ "package.json": JSON.stringify({ name: "foo" }) });
+    assert.throws(
+      () => findGrammar(directory, "foo"),
+      /No tree-sitter.json or package.json/,
+    );
+  });
+});
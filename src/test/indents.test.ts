@@ -0,0 +1,115 @@
+import * as assert from "assert";
+import path from "path";
+import * as ts from "web-tree-sitter";
+import { IndentContext, collectIndents, computeIndent } from "../indents";
+
+// the bundled grammar of query files is used to parse the test documents
+const GRAMMAR = path.join(
+  __dirname,
+  "..",
+  "..",
+  "grammars",
+  "tree-sitter-query.wasm",
+);
+
+let language: ts.Language;
+let parser: ts.Parser;
+
+/**
+ * Computes the indentation of the given lines like the worker does, by default of all lines.
+ */
+function computeIndents(
+  indentsQuery: string,
+  text: string,
+  rows?: number[],
+  tabSize = 2,
+): (number | undefined)[] {
+  const tree = parser.parse(text);
+  if (tree === null) {
+    throw new Error("Failed to parse document.");
+  }
+  const query = new ts.Query(language, indentsQuery);
+  try {
+    const context: IndentContext = {
+      lines: text.split("\n"),
+      root: tree.rootNode,
+      indents: collectIndents(query, tree.rootNode),
+      tabSize,
+      changed: new Map(),
+    };
+    return (rows ?? context.lines.map((_, row) => row)).map((row) => {
+      const indent = computeIndent(context, row);
+      if (indent !== undefined) {
+        context.changed.set(row, indent);
+      }
+      return indent;
+    });
+  } finally {
+    tree.delete();
+    query.delete();
+  }
+}
+
+suite("computeIndent", () => {
+  suiteSetup(async () => {
+    await ts.Parser.init();
+    language = await ts.Language.load(GRAMMAR);
+    parser = new ts.Parser();
+    parser.setLanguage(language);
+  });
+
+  suiteTeardown(() => {
+    parser.delete();
+  });
+
+  test("indents the lines inside of a block", () => {
+    const query = '(named_node) @indent.begin\n(named_node ")" @indent.branch)';
+    assert.deepStrictEqual(
+      computeIndents(query, "(a\n(b\n(c))\n)"),
+      [0, 2, 4, 0],
+    );
+  });
+
+  test("indents an empty line according to the previous line", () => {
+    const query = '(named_node) @indent.begin\n(named_node ")" @indent.branch)';
+    assert.deepStrictEqual(computeIndents(query, "(a\n\n)"), [0, 2, 0]);
+  });
+
+  test("does not indent an empty line after the end of a block", () => {
+    const text = "(a\n  (b))\n\n(c)";
+    assert.strictEqual(
+      computeIndents("(named_node) @indent.begin", text)[2],
+      2,
+    );
+    const query = '(named_node) @indent.begin\n(named_node ")" @indent.end)';
+    assert.strictEqual(computeIndents(query, text)[2], 0);
+  });
+
+  test("does not indent nodes captured by @indent.zero", () => {
+    const query = "(named_node) @indent.begin\n(comment) @indent.zero";
+    assert.deepStrictEqual(computeIndents(query, "(a\n; x\n(b))"), [0, 0, 2]);
+  });
+
+  test("keeps the indentation of lines inside of @indent.auto", () => {
+    assert.deepStrictEqual(computeIndents("(list) @indent.auto", "[\n(a)\n]"), [
+      0,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  test("aligns lines with the open delimiter", () => {
+    const query = `((list) @indent.align
+      (#set! indent.open_delimiter "[")
+      (#set! indent.close_delimiter "]"))`;
+    assert.deepStrictEqual(computeIndents(query, "[(a)\n(b)]"), [0, 1]);
+    // a hanging indent behaves like @indent.begin
+    assert.deepStrictEqual(computeIndents(query, "[\n(a)\n(b)]"), [0, 2, 2]);
+  });
+
+  test("measures tabs with the tab size", () => {
+    const query = `((list) @indent.align
+      (#set! indent.open_delimiter "["))`;
+    assert.deepStrictEqual(computeIndents(query, "\t[(a)\n(b)]", [1], 4), [5]);
+  });
+});
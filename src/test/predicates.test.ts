@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import { luaPatternToRegExp, luaReplacementToString } from "../predicates";
+
+function matches(pattern: string, text: string): boolean {
+  return luaPatternToRegExp(pattern).test(text);
+}
+
+function gsub(text: string, pattern: string, replacement: string): string {
+  const regExp = new RegExp(luaPatternToRegExp(pattern).source, "g");
+  return text.replace(regExp, luaReplacementToString(replacement));
+}
+
+suite("luaPatternToRegExp", () => {
+  test("anchors only at the start and end of the pattern", () => {
+    assert.ok(matches("^[A-Z][A-Z_0-9]*$", "MAX_SIZE"));
+    assert.ok(!matches("^[A-Z][A-Z_0-9]*$", "MaxSize"));
+    assert.ok(matches("a^b$c", "a^b$c"));
+  });
+
+  test("translates character classes and their complements", () => {
+    assert.ok(matches("^%d+$", "123"));
+    assert.ok(!matches("^%d+$", "12a"));
+    assert.ok(matches("^%a%w*$", "a1"));
+    assert.ok(!matches("^%a%w*$", "1a"));
+    assert.ok(matches("^%S+$", "a.b"));
+    assert.ok(!matches("^%S+$", "a b"));
+    assert.ok(matches("^%u%l+$", "Foo"));
+  });
+
+  test("translates sets", () => {
+    assert.ok(matches("^[%a_][%w_]*$", "_foo1"));
+    assert.ok(matches("^[^%s]+$", "foo"));
+    assert.ok(!matches("^[^%s]+$", "f o"));
+    assert.ok(matches("^[]]$", "]"));
+    assert.ok(matches("^[a-c]+$", "abc"));
+    assert.ok(matches("^[a-]+$", "a-"));
+  });
+
+  test("escapes special characters", () => {
+    assert.ok(matches("^%.$", "."));
+    assert.ok(!matches("^%.$", "a"));
+    assert.ok(matches("^a.b$", "a\nb"));
+    assert.ok(matches("^{|}$", "{|}"));
+    assert.ok(matches("^/%-/$", "/-/"));
+  });
+
+  test("translates quantifiers", () => {
+    assert.ok(matches("^a+b?c*$", "aac"));
+    assert.strictEqual(luaPatternToRegExp("a.-b").exec("axxbyyb")?.[0], "axxb");
+    assert.strictEqual(
+      luaPatternToRegExp("a.*b").exec("axxbyyb")?.[0],
+      "axxbyyb",
+    );
+    // a quantifier without an item before it is a literal character
+    assert.ok(matches("^*a$", "*a"));
+  });
+
+  test("translates frontiers and back references", () => {
+    assert.ok(matches("%f[%w]foo", "a foo"));
+    assert.ok(!matches("%f[%w]foo", "afoo"));
+    assert.ok(matches("^(['\"]).*%1$", "'a'"));
+    assert.ok(!matches("^(['\"]).*%1$", "'a\""));
+  });
+
+  test("rejects malformed and unsupported patterns", () => {
+    assert.throws(() => luaPatternToRegExp("a%"), /ends with '%'/);
+    assert.throws(() => luaPatternToRegExp("%b()"), /not supported/);
+    assert.throws(() => luaPatternToRegExp("%fa"), /Missing '\['/);
+    assert.throws(() => luaPatternToRegExp("[abc"), /missing '\]'/);
+    assert.throws(() => luaPatternToRegExp("[%S]"), /not supported/);
+  });
+});
+
+suite("luaReplacementToString", () => {
+  test("translates capture references", () => {
+    assert.strictEqual(gsub("foo_bar", "(%w+)_(%w+)", "%2 %1"), "bar foo");
+    assert.strictEqual(gsub("abc", "b", "[%0]"), "a[b]c");
+  });
+
+  test("keeps escaped and dollar characters", () => {
+    assert.strictEqual(gsub("abc", "b", "%%"), "a%c");
+    assert.strictEqual(gsub("abc", "b", "$1"), "a$1c");
+  });
+});
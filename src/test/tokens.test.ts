@@ -0,0 +1,108 @@
+import * as assert from "assert";
+import { applyLineEdits, diffTokenData } from "../tokens";
+import type { Token } from "../worker";
+
+function token(row: number, column: number, length: number): Token {
+  return {
+    range: {
+      start: { row, column },
+      end: { row, column: column + length },
+    },
+    type: "variable",
+    modifiers: [],
+  };
+}
+
+suite("applyLineEdits", () => {
+  test("keeps the tokens without edits", () => {
+    const tokens = [token(0, 0, 3), token(1, 2, 4)];
+    const result = applyLineEdits(tokens, []);
+    assert.deepStrictEqual(result.tokens, tokens);
+    assert.deepStrictEqual([...result.dirtyLines], []);
+  });
+
+  test("removes the tokens on edited lines", () => {
+    const tokens = [token(0, 0, 3), token(1, 0, 3), token(2, 0, 3)];
+    const result = applyLineEdits(tokens, [
+      { startLine: 1, oldEndLine: 1, newEndLine: 1 },
+    ]);
+    assert.deepStrictEqual(result.tokens, [token(0, 0, 3), token(2, 0, 3)]);
+    assert.deepStrictEqual([...result.dirtyLines], [1]);
+  });
+
+  test("moves the tokens after inserted lines", () => {
+    const tokens = [token(0, 0, 3), token(2, 1, 3)];
+    const result = applyLineEdits(tokens, [
+      { startLine: 1, oldEndLine: 1, newEndLine: 3 },
+    ]);
+    assert.deepStrictEqual(result.tokens, [token(0, 0, 3), token(4, 1, 3)]);
+    assert.deepStrictEqual(
+      [...result.dirtyLines].sort((a, b) => a - b),
+      [1, 2, 3],
+    );
+  });
+
+  test("moves the tokens after deleted lines", () => {
+    const tokens = [token(0, 0, 3), token(1, 0, 3), token(4, 2, 3)];
+    const result = applyLineEdits(tokens, [
+      { startLine: 1, oldEndLine: 3, newEndLine: 1 },
+    ]);
+    assert.deepStrictEqual(result.tokens, [token(0, 0, 3), token(2, 2, 3)]);
+    assert.deepStrictEqual([...result.dirtyLines], [1]);
+  });
+
+  test("moves the dirty lines of earlier edits", () => {
+    const tokens = [token(0, 0, 3), token(5, 0, 3)];
+    const result = applyLineEdits(tokens, [
+      { startLine: 3, oldEndLine: 3, newEndLine: 3 },
+      { startLine: 1, oldEndLine: 1, newEndLine: 2 },
+    ]);
+    assert.deepStrictEqual(result.tokens, [token(0, 0, 3), token(6, 0, 3)]);
+    assert.deepStrictEqual(
+      [...result.dirtyLines].sort((a, b) => a - b),
+      [1, 2, 4],
+    );
+  });
+});
+
+suite("diffTokenData", () => {
+  test("replaces the part between the common prefix and suffix", () => {
+    const edit = diffTokenData(
+      new Uint32Array([1, 2, 3, 4, 5]),
+      new Uint32Array([1, 2, 7, 8, 9, 5]),
+    );
+    assert.strictEqual(edit.start, 2);
+    assert.strictEqual(edit.deleteCount, 2);
+    assert.deepStrictEqual([...edit.data], [7, 8, 9]);
+  });
+
+  test("creates an empty edit for equal data", () => {
+    const edit = diffTokenData(
+      new Uint32Array([1, 2, 3]),
+      new Uint32Array([1, 2, 3]),
+    );
+    assert.strictEqual(edit.start, 3);
+    assert.strictEqual(edit.deleteCount, 0);
+    assert.deepStrictEqual([...edit.data], []);
+  });
+
+  test("does not overlap the prefix and suffix", () => {
+    const edit = diffTokenData(
+      new Uint32Array([1, 1]),
+      new Uint32Array([1, 1, 1]),
+    );
+    assert.strictEqual(edit.start, 2);
+    assert.strictEqual(edit.deleteCount, 0);
+    assert.deepStrictEqual([...edit.data], [1]);
+  });
+
+  test("deletes removed data", () => {
+    const edit = diffTokenData(
+      new Uint32Array([1, 2, 3, 4]),
+      new Uint32Array([1, 4]),
+    );
+    assert.strictEqual(edit.start, 1);
+    assert.strictEqual(edit.deleteCount, 2);
+    assert.deepStrictEqual([...edit.data], []);
+  });
+});
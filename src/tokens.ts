@@ -0,0 +1,91 @@
+import type { Token } from "./worker";
+
+export type LineEdit = {
+  startLine: number;
+  oldEndLine: number;
+  newEndLine: number;
+};
+// replaces `deleteCount` numbers of the previous token data at `start` with `data`
+export type TokenDataEdit = {
+  start: number;
+  deleteCount: number;
+  data: Uint32Array;
+};
+
+/**
+ * Moves the tokens according to the line edits and removes the tokens on edited lines.
+ * Returns the remaining tokens and the lines whose tokens need to be computed again.
+ */
+export function applyLineEdits(
+  tokens: Token[],
+  lineEdits: LineEdit[],
+): { tokens: Token[]; dirtyLines: Set<number> } {
+  let dirtyLines = new Set<number>();
+  for (const { startLine, oldEndLine, newEndLine } of lineEdits) {
+    const delta = newEndLine - oldEndLine;
+    tokens = tokens
+      .filter(
+        (token) =>
+          token.range.start.row < startLine ||
+          token.range.start.row > oldEndLine,
+      )
+      .map((token) => {
+        if (token.range.start.row > oldEndLine && delta !== 0) {
+          return {
+            ...token,
+            range: {
+              start: {
+                ...token.range.start,
+                row: token.range.start.row + delta,
+              },
+              end: { ...token.range.end, row: token.range.end.row + delta },
+            },
+          };
+        }
+        return token;
+      });
+    const movedLines = new Set<number>();
+    for (const line of dirtyLines) {
+      if (line < startLine) {
+        movedLines.add(line);
+      } else if (line > oldEndLine) {
+        movedLines.add(line + delta);
+      }
+    }
+    for (let line = startLine; line <= newEndLine; line++) {
+      movedLines.add(line);
+    }
+    dirtyLines = movedLines;
+  }
+  return { tokens, dirtyLines };
+}
+
+/**
+ * Creates a single edit, that replaces the part between the common prefix and suffix.
+ */
+export function diffTokenData(
+  previous: Uint32Array,
+  current: Uint32Array,
+): TokenDataEdit {
+  let start = 0;
+  while (
+    start < previous.length &&
+    start < current.length &&
+    previous[start] === current[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < current.length - start &&
+    previous[previous.length - 1 - end] === current[current.length - 1 - end]
+  ) {
+    end++;
+  }
+  return {
+    start,
+    deleteCount: previous.length - start - end,
+    data: current.slice(start, current.length - end),
+  };
+}
@@ -0,0 +1,2041 @@
+import * as ts from "web-tree-sitter";
+import { parentPort, workerData } from "worker_threads";
+import { IndentContext, collectIndents, computeIndent } from "./indents";
+import {
+  Config,
+  Language,
+  Locals,
+  collectLocals,
+  deleteLanguage,
+  findConfig,
+  findLocalDefinition,
+  getTokenModifiers,
+  getTokenTypes,
+  initLanguage,
+  loadTsLanguage,
+  mapCaptureName,
+  setCustomTokens,
+  setLogger,
+} from "./language";
+import {
+  QueryCapture,
+  QueryMatch,
+  getCaptureRange,
+  getCaptureText,
+  matchQuery,
+} from "./predicates";
+import { LineEdit, applyLineEdits } from "./tokens";
+
+export type Range = {
+  start: ts.Point;
+  end: ts.Point;
+};
+export type Token = {
+  range: Range;
+  type: string;
+  modifiers: string[];
+};
+export type FoldingRange = {
+  start: number;
+  end: number;
+  name: string;
+};
+export type Problem = {
+  range: Range;
+  message: string;
+  // the suffix of a `@diagnostic.<severity>` capture, e.g. `error`
+  severity: string;
+  code?: string;
+  tag?: string;
+};
+export type OutlineSymbol = {
+  name: string;
+  // the kind of the `@definition.<kind>` capture, or `undefined` for context nodes
+  kind?: string;
+  range: Range;
+  selectionRange: Range;
+  children: OutlineSymbol[];
+};
+export type Tag = {
+  name: string;
+  kind: string;
+  containerName?: string;
+  // the range of the name
+  range: Range;
+};
+export type LocalReferences = {
+  definition: Range;
+  references: Range[];
+};
+export type LineIndent = {
+  row: number;
+  // the indentation in columns
+  indent: number;
+};
+export type TextObject = {
+  name: string;
+  // the id of the parent of the first captured node, which determines the siblings for swapping
+  parent: number | undefined;
+  range: ts.Range;
+};
+export type DelimiterGroup = {
+  container: ts.Range;
+  // the delimiters of the container, ordered by their position
+  delimiters: ts.Range[];
+  // the number of containers around this one
+  depth: number;
+};
+export type SyntaxNode = {
+  id: number;
+  type: string;
+  fieldName: string | null;
+  isNamed: boolean;
+  isError: boolean;
+  isMissing: boolean;
+  range: Range;
+  children: SyntaxNode[];
+};
+export type Capture = {
+  name: string;
+  patternIndex: number;
+  range: Range;
+};
+export type WorkerData = {
+  configs: Config[];
+  // the ids of cancelled requests, stored at the index `id % cancelled.length`
+  cancelled: Int32Array;
+  debug: boolean;
+  tokenTypes: string[];
+  tokenModifiers: string[];
+};
+export type TextChange = {
+  rangeOffset: number;
+  rangeLength: number;
+  text: string;
+  startPosition: ts.Point;
+  oldEndPosition: ts.Point;
+};
+// messages sent from the extension to the worker,
+// only the ones with an id are answered
+export type WorkerRequest =
+  | {
+      method: "open";
+      uri: string;
+      lang: string;
+      folder?: string;
+      text: string;
+    }
+  | { method: "change"; uri: string; changes: TextChange[] }
+  | { method: "close"; uri: string }
+  | { id: number; method: "reload"; lang: string; folder?: string }
+  | { id: number; method: "tokens"; uri: string; lines?: [number, number] }
+  | { id: number; method: "folds"; uri: string }
+  | {
+      id: number;
+      method: "selectionRanges";
+      uri: string;
+      positions: ts.Point[];
+    }
+  | { id: number; method: "symbols"; uri: string }
+  | { id: number; method: "tags"; lang: string; folder?: string; text: string }
+  | { id: number; method: "localReferences"; uri: string; position: ts.Point }
+  | { id: number; method: "problems"; uri: string }
+  | {
+      id: number;
+      method: "queryProblems";
+      uri: string;
+      lang: string;
+      folder?: string;
+    }
+  | {
+      id: number;
+      method: "indents";
+      uri: string;
+      rows: number[];
+      tabSize: number;
+      skipEmptyLines: boolean;
+    }
+  | { id: number; method: "textObjectNames"; uri: string }
+  | { id: number; method: "textObjects"; uri: string; name: string }
+  | { id: number; method: "parentStarts"; uri: string; ranges: Range[] }
+  | { id: number; method: "delimiters"; uri: string }
+  | { id: number; method: "syntaxTree"; uri: string }
+  | { id: number; method: "captures"; uri: string; query: string };
+// messages sent from the worker to the extension
+export type WorkerMessage =
+  | { method: "log"; message: string }
+  | { id: number; result: unknown }
+  | { id: number; error: string; cancelled: boolean };
+
+type Document = {
+  lang: string;
+  // the workspace folder of the config, that the document uses
+  folder?: string;
+  text: string;
+  tree?: ts.Tree;
+  // whether the tree was edited since it was parsed
+  edited: boolean;
+  // `null` marks documents, whose history of edits is not known
+  lineEdits: LineEdit[] | null;
+  // the tokens of the whole document, to compute only the changed lines again
+  tokens?: Token[];
+  // the trees of injected languages, see `injectionKey`
+  injections: Map<string, InjectionTree>;
+};
+type InjectionTree = {
+  lang: string;
+  tree: ts.Tree;
+  // whether the tree was edited since it was parsed
+  edited: boolean;
+  // whether the tree was used while highlighting the whole document the last time
+  used: boolean;
+};
+// a document or an injected part of it, that is parsed with one language
+type Layer = {
+  language: Language;
+  tree: ts.Tree;
+  document: Document;
+  parent?: Layer;
+};
+type Injection = {
+  ranges: Range[];
+  tokens: Token[];
+};
+type PointRange = {
+  startPosition: ts.Point;
+  endPosition: ts.Point;
+};
+type TypedCapture = {
+  match: QueryMatch;
+  capture: QueryCapture;
+  type: string;
+  modifiers: string[];
+};
+type PrioritizedToken = Token & {
+  priority: number;
+  length: number;
+  patternIndex: number;
+};
+type TagNode = {
+  kind: string;
+  node: ts.Node;
+  name: ts.Node;
+  parent?: TagNode;
+};
+
+// the priority of highlights without `#set! priority`, as in Neovim
+const DEFAULT_PRIORITY = 100;
+
+class CancelledError extends Error {
+  constructor() {
+    super("Request was cancelled.");
+  }
+}
+
+const { configs, cancelled, debug, tokenTypes, tokenModifiers } =
+  workerData as WorkerData;
+const languages = new Map<Config, Language>();
+// the parsers of languages, whose queries are not needed, e.g. to check query files
+const tsLanguages = new Map<Config, ts.Language>();
+const documents = new Map<string, Document>();
+// the id of the request that is currently handled
+let currentId = 0;
+// messages are handled one after another, so that edits never interleave with requests
+let queue = Promise.resolve();
+
+setLogger(log);
+setCustomTokens(tokenTypes, tokenModifiers);
+
+parentPort?.on("message", (request: WorkerRequest) => {
+  // a failed message must not stop the messages after it
+  queue = queue
+    .then(() => handle(request))
+    .catch((error) => log(`Failed to handle ${request.method}: ${error}`));
+});
+
+function post(message: WorkerMessage) {
+  parentPort?.postMessage(message);
+}
+
+/**
+ * Sends the message to the extension, which writes it to the output channel.
+ */
+function log(messageOrCallback: string | (() => string)) {
+  if (debug) {
+    const message =
+      typeof messageOrCallback === "function"
+        ? messageOrCallback()
+        : messageOrCallback;
+    post({ method: "log", message });
+  }
+}
+
+async function handle(request: WorkerRequest): Promise<void> {
+  if (!("id" in request)) {
+    // there is no response to report the error in
+    try {
+      switch (request.method) {
+        case "open":
+          documents.set(request.uri, {
+            lang: request.lang,
+            folder: request.folder,
+            text: request.text,
+            edited: false,
+            lineEdits: null,
+            injections: new Map(),
+          });
+          break;
+        case "change": {
+          const document = documents.get(request.uri);
+          if (document !== undefined) {
+            applyChanges(document, request.changes);
+          }
+          break;
+        }
+        case "close": {
+          const document = documents.get(request.uri);
+          if (document !== undefined) {
+            document.tree?.delete();
+            clearInjections(document);
+            documents.delete(request.uri);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      log(`Failed to ${request.method} ${request.uri}: ${error}`);
+    }
+    return;
+  }
+
+  currentId = request.id;
+  try {
+    throwIfCancelled();
+    let result: unknown;
+    switch (request.method) {
+      case "reload":
+        result = await reloadLanguage(request.lang, request.folder);
+        break;
+      case "tokens":
+        result = await getTokens(request.uri, request.lines);
+        break;
+      case "folds":
+        result = await getFoldingRanges(request.uri);
+        break;
+      case "selectionRanges":
+        result = await getSelectionRanges(request.uri, request.positions);
+        break;
+      case "symbols":
+        result = await getSymbols(request.uri);
+        break;
+      case "tags":
+        result = await getTags(request.lang, request.folder, request.text);
+        break;
+      case "localReferences":
+        result = await getLocalReferences(request.uri, request.position);
+        break;
+      case "problems":
+        result = await getProblems(request.uri);
+        break;
+      case "queryProblems":
+        result = await getQueryProblems(
+          request.uri,
+          request.lang,
+          request.folder,
+        );
+        break;
+      case "indents":
+        result = await getIndents(
+          request.uri,
+          request.rows,
+          request.tabSize,
+          request.skipEmptyLines,
+        );
+        break;
+      case "textObjectNames":
+        result = await getTextObjectNames(request.uri);
+        break;
+      case "textObjects":
+        result = await getTextObjects(request.uri, request.name);
+        break;
+      case "parentStarts":
+        result = await getParentStarts(request.uri, request.ranges);
+        break;
+      case "delimiters":
+        result = await getDelimiters(request.uri);
+        break;
+      case "syntaxTree":
+        result = await getSyntaxTree(request.uri);
+        break;
+      case "captures":
+        result = await getCaptures(request.uri, request.query);
+        break;
+    }
+    post({ id: request.id, result });
+  } catch (error) {
+    post({
+      id: request.id,
+      error: `${error}`,
+      cancelled: error instanceof CancelledError,
+    });
+  }
+}
+
+/**
+ * Checks whether the extension cancelled the current request.
+ * It is also passed as progress callback to the parser and queries,
+ * which stop early if it returns true.
+ */
+function isCancelled(): boolean {
+  return Atomics.load(cancelled, currentId % cancelled.length) === currentId;
+}
+
+function throwIfCancelled() {
+  if (isCancelled()) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Returns the language for documents in the workspace folder,
+ * using the config of that folder if there is one.
+ */
+async function getLanguage(
+  lang: string,
+  folder?: string,
+): Promise<Language | undefined> {
+  const config = findConfig(configs, lang, folder);
+  if (config === undefined) {
+    return undefined;
+  }
+  let language = languages.get(config);
+  if (language === undefined) {
+    language = await initLanguage(config);
+    languages.set(config, language);
+  }
+  return language;
+}
+
+/**
+ * Returns the parser of the language without compiling its queries,
+ * so that query files can be checked while one of the queries of the language is broken.
+ */
+async function getTsLanguage(
+  lang: string,
+  folder?: string,
+): Promise<ts.Language | undefined> {
+  const config = findConfig(configs, lang, folder);
+  if (config === undefined) {
+    return undefined;
+  }
+  const loaded = languages.get(config)?.parser.language;
+  if (loaded !== undefined && loaded !== null) {
+    return loaded;
+  }
+  let tsLanguage = tsLanguages.get(config);
+  if (tsLanguage === undefined) {
+    tsLanguage = await loadTsLanguage(config);
+    tsLanguages.set(config, tsLanguage);
+  }
+  return tsLanguage;
+}
+
+/**
+ * Returns the configured language for the name of an injected language.
+ * Unless a language has exactly that name, the first one whose `injectionRegex` matches it is used,
+ * e.g. `^(js|javascript)$` for code blocks marked as `js`.
+ */
+function findInjectedLanguage(name: string): string {
+  if (configs.some((config) => config.lang === name)) {
+    return name;
+  }
+  const config = configs.find(
+    (config) =>
+      config.injectionRegex !== undefined &&
+      new RegExp(config.injectionRegex).test(name),
+  );
+  return config?.lang ?? name;
+}
+
+/**
+ * Loads the language again from its files and drops the trees of its documents.
+ * The previous version of the language is kept, if loading fails.
+ */
+async function reloadLanguage(lang: string, folder?: string): Promise<void> {
+  const config = configs.find(
+    (config) => config.lang === lang && config.folder === folder,
+  );
+  if (config === undefined) {
+    return;
+  }
+  const previous = languages.get(config);
+  languages.set(config, await initLanguage(config));
+  tsLanguages.delete(config);
+  for (const document of documents.values()) {
+    if (findConfig(configs, document.lang, document.folder) === config) {
+      document.tree?.delete();
+      document.tree = undefined;
+      document.edited = false;
+      document.lineEdits = null;
+      document.tokens = undefined;
+    }
+    // the language may be injected into documents of any language
+    clearInjections(document);
+  }
+  // the trees parsed with the previous version are gone
+  if (previous !== undefined) {
+    deleteLanguage(previous);
+  }
+}
+
+/**
+ * Applies the changes to the text and the trees of the document, including the injected ones.
+ * The changes have to be in reverse document order so positions remain valid.
+ * The trees are only parsed again, when they are requested the next time.
+ */
+function applyChanges(document: Document, changes: TextChange[]) {
+  for (const change of changes) {
+    const { startPosition, oldEndPosition } = change;
+    const newLines = change.text.split("\n");
+    const newEndPosition: ts.Point = {
+      row: startPosition.row + newLines.length - 1,
+      column:
+        newLines.length === 1
+          ? startPosition.column + newLines[0].length
+          : newLines[newLines.length - 1].length,
+    };
+
+    const edit = new ts.Edit({
+      startIndex: change.rangeOffset,
+      oldEndIndex: change.rangeOffset + change.rangeLength,
+      newEndIndex: change.rangeOffset + change.text.length,
+      startPosition,
+      oldEndPosition,
+      newEndPosition,
+    });
+
+    document.text =
+      document.text.slice(0, change.rangeOffset) +
+      change.text +
+      document.text.slice(change.rangeOffset + change.rangeLength);
+    if (document.tree !== undefined) {
+      document.tree.edit(edit);
+      document.edited = true;
+    }
+    for (const [key, injection] of document.injections) {
+      const ranges = injection.tree.getIncludedRanges();
+      // injections that were removed completely are not needed anymore
+      if (
+        change.rangeLength > 0 &&
+        ranges.length > 0 &&
+        edit.startIndex <= ranges[0].startIndex &&
+        ranges[ranges.length - 1].endIndex <= edit.oldEndIndex
+      ) {
+        injection.tree.delete();
+        document.injections.delete(key);
+        continue;
+      }
+      injection.tree.edit(edit);
+      injection.edited = true;
+    }
+    document.lineEdits?.push({
+      startLine: startPosition.row,
+      oldEndLine: oldEndPosition.row,
+      newEndLine: newEndPosition.row,
+    });
+  }
+  // the keys depend on the positions of the injections, which were moved by the edits
+  document.injections = new Map(
+    [...document.injections.values()].map((injection) => [
+      injectionKey(injection.lang, injection.tree.getIncludedRanges()),
+      injection,
+    ]),
+  );
+}
+
+function clearInjections(document: Document) {
+  for (const injection of document.injections.values()) {
+    injection.tree.delete();
+  }
+  document.injections.clear();
+}
+
+/**
+ * Returns the document with its language and an up-to-date syntax tree,
+ * using incremental parsing when possible.
+ * The ranges whose syntax changed are added to the line edits of the document.
+ */
+async function getDocument(
+  uri: string,
+): Promise<{ document: Document; language: Language; tree: ts.Tree }> {
+  const document = documents.get(uri);
+  if (document === undefined) {
+    throw new Error(`Unknown document: ${uri}`);
+  }
+  const language = await getLanguage(document.lang, document.folder);
+  if (language === undefined) {
+    throw new Error("No config for lang provided.");
+  }
+  if (document.tree === undefined || document.edited) {
+    const tree = language.parser.parse(document.text, document.tree, {
+      progressCallback: isCancelled,
+    });
+    if (tree === null) {
+      language.parser.reset();
+      throwIfCancelled();
+      throw new Error("Failed to parse document.");
+    }
+    if (document.tree !== undefined) {
+      for (const range of document.tree.getChangedRanges(tree)) {
+        document.lineEdits?.push({
+          startLine: range.startPosition.row,
+          oldEndLine: range.endPosition.row,
+          newEndLine: range.endPosition.row,
+        });
+      }
+      document.tree.delete();
+    } else {
+      document.lineEdits = null;
+    }
+    document.tree = tree;
+    document.edited = false;
+  }
+  return { document, language, tree: document.tree };
+}
+
+/**
+ * Returns the highlighting tokens of the whole document or of the given lines.
+ * For the whole document, the previous tokens are moved according to the edits,
+ * and only the tokens on edited lines or lines whose syntax changed are computed again.
+ */
+async function getTokens(
+  uri: string,
+  lines?: [number, number],
+): Promise<Token[]> {
+  const { document, language, tree } = await getDocument(uri);
+  const layer: Layer = { language, tree, document };
+  if (lines !== undefined) {
+    const [startLine, endLine] = lines;
+    const tokens = await parseToTokens(layer, {
+      startPosition: { row: startLine, column: 0 },
+      endPosition: { row: endLine + 1, column: 0 },
+    });
+    return tokens.filter(
+      (token) =>
+        token.range.start.row >= startLine && token.range.start.row <= endLine,
+    );
+  }
+
+  let tokens: Token[];
+  // references may inherit their type from definitions anywhere in the document,
+  // and combined injections are parsed as a whole,
+  // so languages with locals or combined injections are always highlighted as a whole
+  if (
+    document.tokens === undefined ||
+    document.lineEdits === null ||
+    language.localsQuery !== undefined ||
+    (language.injectionQuery !== undefined &&
+      hasCombinedInjections(language.injectionQuery))
+  ) {
+    for (const injection of document.injections.values()) {
+      injection.used = false;
+    }
+    tokens = await parseToTokens(layer);
+    // all injections were visited, so the unused ones don't exist anymore
+    for (const [key, injection] of document.injections) {
+      if (!injection.used) {
+        injection.tree.delete();
+        document.injections.delete(key);
+      }
+    }
+  } else {
+    const moved = applyLineEdits(document.tokens, document.lineEdits);
+    tokens = moved.tokens;
+    for (const [startLine, endLine] of toLineRanges(
+      moved.dirtyLines,
+      tree.rootNode.endPosition.row + 1,
+    )) {
+      const lineTokens = await parseToTokens(layer, {
+        startPosition: { row: startLine, column: 0 },
+        endPosition: { row: endLine + 1, column: 0 },
+      });
+      tokens.push(
+        ...lineTokens.filter(
+          (token) =>
+            token.range.start.row >= startLine &&
+            token.range.start.row <= endLine,
+        ),
+      );
+    }
+    tokens.sort((a, b) => comparePoints(a.range.start, b.range.start));
+    log(
+      () =>
+        `Computed semantic tokens for ${moved.dirtyLines.size} lines of ${uri}`,
+    );
+  }
+  // only remember the tokens once they are complete, so cancelled requests can be repeated
+  document.tokens = tokens;
+  document.lineEdits = [];
+  return tokens;
+}
+
+/**
+ * Returns the highlighting tokens for the syntax tree of the given layer.
+ * Calls `getInjections` for nested injections.
+ * If a range is given, only matches intersecting with it are considered.
+ */
+async function parseToTokens(
+  layer: Layer,
+  range?: PointRange,
+): Promise<Token[]> {
+  const { language: lang, tree } = layer;
+  const { highlightQuery, injectionQuery, localsQuery } = lang;
+  const matches = matchQuery(highlightQuery, tree.rootNode, {
+    ...range,
+    progressCallback: isCancelled,
+  });
+  throwIfCancelled();
+  const locals =
+    localsQuery !== undefined
+      ? collectLocals(localsQuery, tree.rootNode)
+      : undefined;
+  let tokens = matchesToTokens(lang, matches, locals);
+  throwIfCancelled();
+  if (injectionQuery !== undefined) {
+    const injections = await getInjections(layer, injectionQuery, range);
+    // merge the injection tokens with the main tokens
+    for (const injection of injections) {
+      if (injection.tokens.length === 0) continue;
+      for (const range of injection.ranges) {
+        // remove the parts of the tokens, that are contained in an injection
+        tokens = tokens.flatMap((token) => cutToken(token, range));
+      }
+    }
+    tokens = tokens.concat(
+      injections.map((injection) => injection.tokens).flat(),
+    );
+  }
+  return tokens;
+}
+
+/**
+ * Converts the captures to tokens. Where tokens overlap, the one with the higher
+ * `priority` (set with `#set! priority`, 100 by default) wins. For the same priority
+ * inner tokens win over the ones containing them, and for the same range the later pattern wins.
+ */
+function matchesToTokens(
+  lang: Language,
+  matches: QueryMatch[],
+  locals?: Locals,
+): Token[] {
+  let typedCaptures: TypedCapture[] = matches.flatMap((match) =>
+    match.captures.map((capture) => {
+      const { type, modifiers } = mapCaptureName(lang, capture.name);
+      return { match, capture, type, modifiers };
+    }),
+  );
+  if (locals !== undefined) {
+    typedCaptures = applyLocals(typedCaptures, locals);
+  }
+
+  const prioritizedTokens: PrioritizedToken[] = typedCaptures.flatMap(
+    ({ match, capture, type, modifiers }) => {
+      const range = getCaptureRange(capture);
+      if (
+        !getTokenTypes().includes(type) ||
+        range.endIndex <= range.startIndex
+      ) {
+        return [];
+      }
+      const validModifiers = modifiers.filter((modifier) =>
+        getTokenModifiers().includes(modifier),
+      );
+      return {
+        range: { start: range.startPosition, end: range.endPosition },
+        type: type,
+        modifiers: validModifiers,
+        priority: getPriority(match),
+        length: range.endIndex - range.startIndex,
+        patternIndex: match.patternIndex,
+      };
+    },
+  );
+  // the tokens are painted over each other, starting with the weakest
+  prioritizedTokens.sort(
+    (a, b) =>
+      a.priority - b.priority ||
+      b.length - a.length ||
+      a.patternIndex - b.patternIndex,
+  );
+
+  const lines = new Map<number, Token[]>();
+  for (const { range, type, modifiers } of prioritizedTokens) {
+    throwIfCancelled();
+    for (const token of splitToken({ range, type, modifiers })) {
+      const row = token.range.start.row;
+      const line = (lines.get(row) ?? []).flatMap((other) =>
+        cutToken(other, token.range),
+      );
+      line.push(token);
+      lines.set(row, line);
+    }
+  }
+  return [...lines.values()].flat();
+}
+
+function getPriority(match: QueryMatch): number {
+  const priority = Number(match.setProperties?.priority ?? DEFAULT_PRIORITY);
+  return Number.isNaN(priority) ? DEFAULT_PRIORITY : priority;
+}
+
+/**
+ * Returns the parts of the token outside of the range.
+ */
+function cutToken(token: Token, range: Range): Token[] {
+  if (!intersectsRange(token.range, range)) {
+    return [token];
+  }
+  const tokens: Token[] = [];
+  if (comparePoints(token.range.start, range.start) < 0) {
+    const before = { start: token.range.start, end: range.start };
+    tokens.push({ ...token, range: before });
+  }
+  if (comparePoints(token.range.end, range.end) > 0) {
+    const after = { start: range.end, end: token.range.end };
+    tokens.push({ ...token, range: after });
+  }
+  return tokens;
+}
+
+/**
+ * Adds the `declaration` modifier to local definitions
+ * and lets local references inherit the token type of their definition.
+ * Like in tree-sitter, patterns containing `(#is-not? local)` don't apply to local definitions
+ * and to references resolving to them, e.g. a local variable named like a builtin function.
+ */
+function applyLocals(
+  typedCaptures: TypedCapture[],
+  locals: Locals,
+): TypedCapture[] {
+  const resolved = new Map<number, ts.Node | undefined>();
+  const resolve = (node: ts.Node) => {
+    if (!resolved.has(node.id)) {
+      resolved.set(node.id, findLocalDefinition(locals, node));
+    }
+    return resolved.get(node.id);
+  };
+  const localCaptures = typedCaptures.filter(({ match, capture }) => {
+    if (!match.refutedProperties || !("local" in match.refutedProperties)) {
+      return true;
+    }
+    const node = capture.node;
+    return (
+      !locals.definitions.has(node.id) &&
+      !(locals.references.has(node.id) && resolve(node) !== undefined)
+    );
+  });
+  // if a definition is captured multiple times, the last pattern wins
+  const definitionTypes = new Map<
+    number,
+    { type: string; patternIndex: number }
+  >();
+  for (const typedCapture of localCaptures) {
+    const { match, capture, type } = typedCapture;
+    if (!locals.definitions.has(capture.node.id)) continue;
+    if (!getTokenTypes().includes(type)) continue;
+    typedCapture.modifiers = [...typedCapture.modifiers, "declaration"];
+    const previous = definitionTypes.get(capture.node.id);
+    if (previous === undefined || previous.patternIndex <= match.patternIndex) {
+      definitionTypes.set(capture.node.id, {
+        type,
+        patternIndex: match.patternIndex,
+      });
+    }
+  }
+  for (const typedCapture of localCaptures) {
+    const { capture } = typedCapture;
+    if (!locals.references.has(capture.node.id)) continue;
+    const definition = resolve(capture.node);
+    if (definition === undefined) continue;
+    const definitionType = definitionTypes.get(definition.id);
+    if (definitionType !== undefined) {
+      typedCapture.type = definitionType.type;
+    }
+  }
+  return localCaptures;
+}
+
+/**
+ * Determines the language and the content node of an injection match, following
+ * https://tree-sitter.github.io/tree-sitter/3-syntax-highlighting.html#language-injection.
+ */
+async function resolveInjection(
+  layer: Layer,
+  match: QueryMatch,
+): Promise<{ language: Language; capture: QueryCapture } | null> {
+  const properties = match.setProperties || {};
+  // the language is hard coded by "set!"
+  const injectionLanguage = properties["injection.language"];
+  const hardCoded =
+    typeof injectionLanguage == "string" ? injectionLanguage : undefined;
+  // dynamically determined language
+  const languageCapture = match.captures.find(
+    (capture) => capture.name === "injection.language",
+  );
+  const dynamic =
+    languageCapture !== undefined ? getCaptureText(languageCapture) : undefined;
+  // custom language determination by capture name
+  const name = match.captures.find((capture) =>
+    configs.map((config) => config.lang).includes(capture.name),
+  )?.name;
+  // the language of the document or the language it is injected into
+  const self = "injection.self" in properties;
+  const parent = "injection.parent" in properties;
+
+  let language: Language | undefined;
+  if (self) {
+    language = layer.language;
+  } else if (parent) {
+    language = (layer.parent ?? layer).language;
+  } else {
+    const lang = hardCoded || dynamic || name;
+    if (lang === undefined) return null;
+    language = await getLanguage(
+      findInjectedLanguage(lang),
+      layer.document.folder,
+    );
+  }
+  if (language === undefined) return null;
+
+  // determine capture
+  const content = match.captures.find(
+    (capture) => capture.name === "injection.content",
+  );
+  let capture = undefined;
+  if (content !== undefined) {
+    capture = content;
+  } else if (hardCoded !== undefined || self || parent) {
+    // use first capture (there should only be one)
+    capture = match.captures[0];
+  } else if (dynamic === undefined && name !== undefined) {
+    capture = match.captures.find((capture) => capture.name === name);
+  }
+  if (capture === undefined) return null;
+  return { language, capture };
+}
+
+/**
+ * Returns the highlighting tokens of the documents injected into the given layer.
+ * This also works for nested injections.
+ */
+async function getInjections(
+  layer: Layer,
+  injectionQuery: ts.Query,
+  range?: PointRange,
+): Promise<Injection[]> {
+  const injections: Injection[] = [];
+  for (const injected of await getInjectedLayers(
+    layer,
+    injectionQuery,
+    range,
+  )) {
+    const tokens = await parseToTokens(injected);
+    injections.push({
+      ranges: injected.tree.getIncludedRanges().map((range) => ({
+        start: range.startPosition,
+        end: range.endPosition,
+      })),
+      tokens,
+    });
+  }
+  return injections;
+}
+
+/**
+ * Matches the injection query against the tree of the given layer and returns the injected layers.
+ * Each match is parsed on its own, except for patterns with `injection.combined`,
+ * whose matches are parsed together as one document per language.
+ */
+async function getInjectedLayers(
+  layer: Layer,
+  injectionQuery: ts.Query,
+  range?: PointRange,
+): Promise<Layer[]> {
+  const node = layer.tree.rootNode;
+  let matches = matchQuery(injectionQuery, node, {
+    ...range,
+    progressCallback: isCancelled,
+  });
+  // combined injections depend on all of their parts, even the ones outside of the range
+  if (range !== undefined && hasCombinedInjections(injectionQuery)) {
+    const isCombined = (match: QueryMatch) =>
+      isCombinedInjection(injectionQuery, match.patternIndex);
+    matches = matches
+      .filter((match) => !isCombined(match))
+      .concat(
+        matchQuery(injectionQuery, node, {
+          progressCallback: isCancelled,
+        }).filter(isCombined),
+      );
+  }
+  throwIfCancelled();
+
+  const hostRanges = layer.tree.getIncludedRanges();
+  const separate: { language: Language; ranges: ts.Range[] }[] = [];
+  // the ranges of combined injections by pattern and language
+  const combined = new Map<number, Map<Language, ts.Range[]>>();
+  for (const match of matches) {
+    const injection = await resolveInjection(layer, match);
+    if (injection === null) continue;
+    const includeChildren =
+      "injection.include-children" in (match.setProperties || {});
+    // `#offset!` and `#trim!` can narrow the content
+    const contentRanges = intersectRanges(
+      getContentRanges(injection.capture.node, includeChildren),
+      [getCaptureRange(injection.capture)],
+    );
+    const ranges = intersectRanges(contentRanges, hostRanges);
+    if (isCombinedInjection(injectionQuery, match.patternIndex)) {
+      const languages = combined.get(match.patternIndex) ?? new Map();
+      combined.set(match.patternIndex, languages);
+      languages.set(injection.language, [
+        ...(languages.get(injection.language) ?? []),
+        ...ranges,
+      ]);
+    } else {
+      separate.push({ language: injection.language, ranges });
+    }
+  }
+  for (const languages of combined.values()) {
+    for (const [language, ranges] of languages) {
+      separate.push({ language, ranges: mergeRanges(ranges) });
+    }
+  }
+
+  const layers: Layer[] = [];
+  for (const { language, ranges } of separate) {
+    if (ranges.length === 0) continue;
+    // injecting a layer into itself would never end
+    if (language === layer.language && isEqualRanges(ranges, hostRanges)) {
+      continue;
+    }
+    const tree = getInjectionTree(layer.document, language, ranges);
+    if (tree === null) continue;
+    layers.push({ language, tree, document: layer.document, parent: layer });
+  }
+  return layers;
+}
+
+/**
+ * Returns the tree of an injection, reusing the tree of the previous request at the same position.
+ * It is only parsed again, if it was edited or its ranges changed, and then incrementally.
+ */
+function getInjectionTree(
+  document: Document,
+  language: Language,
+  ranges: ts.Range[],
+): ts.Tree | null {
+  const key = injectionKey(language.lang, ranges);
+  const cached = document.injections.get(key);
+  if (cached !== undefined) {
+    cached.used = true;
+    if (
+      !cached.edited &&
+      isEqualRanges(cached.tree.getIncludedRanges(), ranges)
+    ) {
+      return cached.tree;
+    }
+  }
+  const tree = language.parser.parse(document.text, cached?.tree, {
+    includedRanges: ranges,
+    progressCallback: isCancelled,
+  });
+  if (tree === null) {
+    language.parser.reset();
+    throwIfCancelled();
+    return null;
+  }
+  cached?.tree.delete();
+  document.injections.set(key, {
+    lang: language.lang,
+    tree,
+    edited: false,
+    used: true,
+  });
+  return tree;
+}
+
+/**
+ * Identifies an injection by its language and the start and end of its ranges.
+ */
+function injectionKey(lang: string, ranges: ts.Range[]): string {
+  return `${lang}:${ranges[0].startIndex}-${ranges[ranges.length - 1].endIndex}`;
+}
+
+function isEqualRanges(ranges: ts.Range[], others: ts.Range[]): boolean {
+  return (
+    ranges.length === others.length &&
+    ranges.every(
+      (range, i) =>
+        range.startIndex === others[i].startIndex &&
+        range.endIndex === others[i].endIndex,
+    )
+  );
+}
+
+function isCombinedInjection(query: ts.Query, patternIndex: number): boolean {
+  const properties = query.setProperties[patternIndex] as
+    | ts.QueryProperties
+    | undefined;
+  return properties !== undefined && "injection.combined" in properties;
+}
+
+function hasCombinedInjections(query: ts.Query): boolean {
+  return query.setProperties.some((_, patternIndex) =>
+    isCombinedInjection(query, patternIndex),
+  );
+}
+
+/**
+ * Returns the ranges of the node, that belong to the injected document.
+ * Unless the children are included, the ranges of the child nodes are left out.
+ */
+function getContentRanges(node: ts.Node, includeChildren: boolean): ts.Range[] {
+  const ranges: ts.Range[] = [];
+  let startIndex = node.startIndex;
+  let startPosition = node.startPosition;
+  if (!includeChildren) {
+    for (const child of node.children) {
+      if (child.startIndex > startIndex) {
+        ranges.push({
+          startIndex,
+          startPosition,
+          endIndex: child.startIndex,
+          endPosition: child.startPosition,
+        });
+      }
+      startIndex = child.endIndex;
+      startPosition = child.endPosition;
+    }
+  }
+  if (node.endIndex > startIndex) {
+    ranges.push({
+      startIndex,
+      startPosition,
+      endIndex: node.endIndex,
+      endPosition: node.endPosition,
+    });
+  }
+  return ranges;
+}
+
+/**
+ * Restricts the ranges to the parts that are also covered by the other ranges.
+ * Both lists have to be ordered and must not overlap.
+ */
+function intersectRanges(ranges: ts.Range[], others: ts.Range[]): ts.Range[] {
+  const intersection: ts.Range[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < ranges.length && j < others.length) {
+    const range = ranges[i];
+    const other = others[j];
+    const start = range.startIndex >= other.startIndex ? range : other;
+    const end = range.endIndex <= other.endIndex ? range : other;
+    if (start.startIndex < end.endIndex) {
+      intersection.push({
+        startIndex: start.startIndex,
+        startPosition: start.startPosition,
+        endIndex: end.endIndex,
+        endPosition: end.endPosition,
+      });
+    }
+    if (range.endIndex <= other.endIndex) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return intersection;
+}
+
+/**
+ * Orders the ranges and joins overlapping ones,
+ * as required for the included ranges of a parser.
+ */
+function mergeRanges(ranges: ts.Range[]): ts.Range[] {
+  const merged: ts.Range[] = [];
+  const sorted = [...ranges].sort((a, b) => a.startIndex - b.startIndex);
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last !== undefined && range.startIndex < last.endIndex) {
+      if (range.endIndex > last.endIndex) {
+        merged[merged.length - 1] = {
+          ...last,
+          endIndex: range.endIndex,
+          endPosition: range.endPosition,
+        };
+      }
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+async function getFoldingRanges(uri: string): Promise<FoldingRange[]> {
+  const { document, language, tree } = await getDocument(uri);
+  return collectFoldingRanges({ language, tree, document });
+}
+
+/**
+ * Matches the fold query against the tree of the given layer
+ * and includes the folding ranges of the injected documents.
+ */
+async function collectFoldingRanges(layer: Layer): Promise<FoldingRange[]> {
+  const { language, tree } = layer;
+  const foldingRanges: FoldingRange[] = [];
+
+  if (language.foldQuery !== undefined) {
+    const matches = matchQuery(language.foldQuery, tree.rootNode, {
+      progressCallback: isCancelled,
+    });
+    throwIfCancelled();
+
+    for (const match of matches) {
+      if (match.captures.length <= 0) continue;
+      const firstCapture = match.captures[0];
+      const lastCapture = match.captures[match.captures.length - 1];
+      const startLine = getCaptureRange(firstCapture).startPosition.row;
+      const endLine = getCaptureRange(lastCapture).endPosition.row;
+
+      // Only create a fold if it spans at least 2 lines
+      if (endLine > startLine) {
+        foldingRanges.push({
+          start: startLine,
+          end: endLine,
+          name: firstCapture.name,
+        });
+      }
+    }
+  }
+
+  if (language.injectionQuery !== undefined) {
+    const injected = await getInjectedLayers(layer, language.injectionQuery);
+    for (const injectedLayer of injected) {
+      foldingRanges.push(...(await collectFoldingRanges(injectedLayer)));
+    }
+  }
+  return foldingRanges;
+}
+
+/**
+ * Returns the ranges of the nodes at the given positions and their ancestors,
+ * from innermost to outermost, skipping duplicates.
+ * Inside of injected documents their nodes come before the ones of the host document.
+ */
+async function getSelectionRanges(
+  uri: string,
+  positions: ts.Point[],
+): Promise<Range[][]> {
+  const { document, language, tree } = await getDocument(uri);
+  const selectionRanges: Range[][] = [];
+  for (const position of positions) {
+    const ranges: Range[] = [];
+    const layer = { language, tree, document };
+    for (const range of await collectSelectionRanges(layer, position)) {
+      const last = ranges[ranges.length - 1];
+      // the root of a combined injection might not fit into the host nodes
+      if (
+        last === undefined ||
+        (!isEqualRange(range, last) && containsRange(range, last))
+      ) {
+        ranges.push(range);
+      }
+    }
+    selectionRanges.push(ranges);
+  }
+  return selectionRanges;
+}
+
+/**
+ * Returns the ranges of the node at the given position and its ancestors in the given layer,
+ * preceded by the ones of the injected document, that contains the position.
+ */
+async function collectSelectionRanges(
+  layer: Layer,
+  position: ts.Point,
+): Promise<Range[]> {
+  const ranges: Range[] = [];
+  let node: ts.Node | null =
+    layer.tree.rootNode.descendantForPosition(position);
+  while (node !== null) {
+    ranges.push({ start: node.startPosition, end: node.endPosition });
+    node = node.parent;
+  }
+
+  const injectionQuery = layer.language.injectionQuery;
+  if (injectionQuery !== undefined) {
+    const line = {
+      startPosition: { row: position.row, column: 0 },
+      endPosition: { row: position.row + 1, column: 0 },
+    };
+    const injected = await getInjectedLayers(layer, injectionQuery, line);
+    const injectedLayer = injected.find((injectedLayer) =>
+      injectedLayer.tree
+        .getIncludedRanges()
+        .some(
+          (range) =>
+            comparePoints(range.startPosition, position) <= 0 &&
+            comparePoints(position, range.endPosition) <= 0,
+        ),
+    );
+    if (injectedLayer !== undefined) {
+      ranges.unshift(
+        ...(await collectSelectionRanges(injectedLayer, position)),
+      );
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Returns the definitions of the tags query and the nodes of the context query as a tree of symbols.
+ * Context nodes are named by their first line and nested like definitions,
+ * so that they show up in the outline, the breadcrumbs and sticky scroll.
+ */
+async function getSymbols(uri: string): Promise<OutlineSymbol[]> {
+  const { document, language, tree } = await getDocument(uri);
+  const entries: { node: ts.Node; symbol: OutlineSymbol }[] = [];
+  const tags =
+    language.tagsQuery !== undefined
+      ? collectTags(language.tagsQuery, tree.rootNode)
+      : [];
+  for (const tag of tags) {
+    entries.push({
+      node: tag.node,
+      symbol: {
+        name: tag.name.text,
+        kind: tag.kind,
+        range: toRange(tag.node),
+        selectionRange: toRange(tag.name),
+        children: [],
+      },
+    });
+  }
+  // the context nodes are only named by their first line,
+  // so they are only used for sticky scroll in languages without a tags query
+  const contexts =
+    language.contextQuery !== undefined && language.tagsQuery === undefined
+      ? collectContexts(language.contextQuery, tree.rootNode)
+      : [];
+  const lines = contexts.length > 0 ? document.text.split(/\r?\n/) : [];
+  for (const node of contexts) {
+    const { startPosition } = node;
+    const line = lines[startPosition.row] ?? "";
+    // VSCode rejects symbols without a name
+    if (line.trim() === "") continue;
+    entries.push({
+      node,
+      symbol: {
+        name: line.trim(),
+        range: toRange(node),
+        selectionRange: {
+          start: startPosition,
+          end: { row: startPosition.row, column: line.length },
+        },
+        children: [],
+      },
+    });
+  }
+
+  // parents come before their children, since they start earlier or end later
+  entries.sort(
+    (a, b) =>
+      a.node.startIndex - b.node.startIndex ||
+      b.node.endIndex - a.node.endIndex,
+  );
+  const symbols: OutlineSymbol[] = [];
+  const parents: { node: ts.Node; symbol: OutlineSymbol }[] = [];
+  for (const entry of entries) {
+    while (
+      parents.length > 0 &&
+      parents[parents.length - 1].node.endIndex < entry.node.endIndex
+    ) {
+      parents.pop();
+    }
+    const parent = parents[parents.length - 1];
+    if (parent !== undefined) {
+      parent.symbol.children.push(entry.symbol);
+    } else {
+      symbols.push(entry.symbol);
+    }
+    parents.push(entry);
+  }
+  return symbols;
+}
+
+/**
+ * Parses the text of a file, that is not open, and returns the definitions of the tags query.
+ */
+async function getTags(
+  lang: string,
+  folder: string | undefined,
+  text: string,
+): Promise<Tag[]> {
+  const language = await getLanguage(lang, folder);
+  if (language?.tagsQuery === undefined) {
+    return [];
+  }
+  const tree = language.parser.parse(text, null, {
+    progressCallback: isCancelled,
+  });
+  if (tree === null) {
+    language.parser.reset();
+    throwIfCancelled();
+    throw new Error("Failed to parse document.");
+  }
+  try {
+    return collectTags(language.tagsQuery, tree.rootNode).map((tag) => {
+      return {
+        name: tag.name.text,
+        kind: tag.kind,
+        containerName: tag.parent?.name.text,
+        range: toRange(tag.name),
+      };
+    });
+  } finally {
+    tree.delete();
+  }
+}
+
+/**
+ * Matches the tags query against the given node and collects
+ * the `@definition.*` captures together with their `@name` captures, see
+ * https://tree-sitter.github.io/tree-sitter/4-code-navigation.html.
+ * The tags are ordered by their position in the document.
+ */
+function collectTags(tagsQuery: ts.Query, node: ts.Node): TagNode[] {
+  const tags = new Map<number, TagNode>();
+  for (const match of matchQuery(tagsQuery, node)) {
+    const definition = match.captures.find((capture) =>
+      capture.name.startsWith("definition."),
+    );
+    const name = match.captures.find((capture) => capture.name === "name");
+    if (definition === undefined || name === undefined) continue;
+    // VSCode rejects symbols without a name, e.g. of a MISSING node
+    if (name.node.text.trim() === "") continue;
+    // the same node might be matched by multiple patterns
+    if (tags.has(definition.node.id)) continue;
+    tags.set(definition.node.id, {
+      kind: definition.name.slice("definition.".length),
+      node: definition.node,
+      name: name.node,
+    });
+  }
+  // nest the tags according to the syntax tree
+  for (const tag of tags.values()) {
+    let parent = tag.node.parent;
+    while (parent !== null && !tags.has(parent.id)) {
+      parent = parent.parent;
+    }
+    tag.parent = parent !== null ? tags.get(parent.id) : undefined;
+  }
+  return [...tags.values()].sort(
+    (a, b) => a.node.startIndex - b.node.startIndex,
+  );
+}
+
+/**
+ * Matches the context query against the given node and collects the `@context` captures,
+ * following https://github.com/nvim-treesitter/nvim-treesitter-context.
+ * Only nodes spanning multiple lines are collected, since only those can be scrolled past.
+ */
+function collectContexts(contextQuery: ts.Query, node: ts.Node): ts.Node[] {
+  const contexts = new Map<number, ts.Node>();
+  for (const match of matchQuery(contextQuery, node)) {
+    for (const capture of match.captures) {
+      if (capture.name !== "context") continue;
+      if (capture.node.endPosition.row <= capture.node.startPosition.row) {
+        continue;
+      }
+      contexts.set(capture.node.id, capture.node);
+    }
+  }
+  return [...contexts.values()];
+}
+
+/**
+ * Resolves the definition or reference at the given position with the locals query
+ * and returns the definition together with all references to it.
+ */
+async function getLocalReferences(
+  uri: string,
+  position: ts.Point,
+): Promise<LocalReferences | undefined> {
+  const { language, tree } = await getDocument(uri);
+  if (language.localsQuery === undefined) {
+    return undefined;
+  }
+  const locals = collectLocals(language.localsQuery, tree.rootNode);
+  let node = tree.rootNode.descendantForPosition(position);
+  let definition: ts.Node | undefined = undefined;
+  while (node !== null && definition === undefined) {
+    if (locals.definitions.has(node.id)) {
+      definition = node;
+    } else if (locals.references.has(node.id)) {
+      definition = findLocalDefinition(locals, node);
+      if (definition === undefined) {
+        return undefined;
+      }
+    }
+    node = node.parent;
+  }
+  if (definition === undefined) {
+    return undefined;
+  }
+
+  const definitionId = definition.id;
+  const references = [...locals.references.values()].filter(
+    (reference) => findLocalDefinition(locals, reference)?.id === definitionId,
+  );
+  log(
+    () =>
+      `Resolved ${references.length} references to ${definition.text} in ${uri}`,
+  );
+  return {
+    definition: toRange(definition),
+    references: references.map((reference) => toRange(reference)),
+  };
+}
+
+/**
+ * Returns the syntax errors, if they are enabled for the language, and the captures of the diagnostics query.
+ */
+async function getProblems(uri: string): Promise<Problem[]> {
+  const { document, language, tree } = await getDocument(uri);
+  const problems: Problem[] = [];
+  if (findConfig(configs, document.lang, document.folder)?.syntaxErrors) {
+    for (const node of collectSyntaxErrors(tree.rootNode)) {
+      problems.push({
+        range: toRange(node),
+        message: syntaxErrorMessage(node),
+        severity: "error",
+      });
+    }
+  }
+  if (language.diagnosticQuery !== undefined) {
+    problems.push(
+      ...collectQueryProblems(language.diagnosticQuery, tree.rootNode),
+    );
+  }
+  return problems;
+}
+
+/**
+ * Collects all `ERROR` and `MISSING` nodes below the given node.
+ * Only subtrees containing errors are visited
+ * and the contents of `ERROR` nodes are not reported separately.
+ */
+function collectSyntaxErrors(node: ts.Node): ts.Node[] {
+  if (node.isError || node.isMissing) {
+    return [node];
+  }
+  if (!node.hasError) {
+    return [];
+  }
+  return node.children.flatMap(collectSyntaxErrors);
+}
+
+function syntaxErrorMessage(node: ts.Node): string {
+  if (node.isMissing) {
+    return `Missing \`${node.type}\``;
+  }
+  // use the first token of the erroneous text as a hint
+  const snippet = node.text.trim().split(/\s+/)[0];
+  if (snippet === undefined || snippet.length === 0) {
+    return "Syntax error";
+  }
+  const truncated =
+    snippet.length > 30 ? `${snippet.slice(0, 30)}...` : snippet;
+  const parent = node.parent;
+  if (parent !== null && parent.parent !== null) {
+    return `Unexpected \`${truncated}\` in ${parent.type}`;
+  }
+  return `Unexpected \`${truncated}\``;
+}
+
+/**
+ * Creates a problem for every `@diagnostic.<severity>` capture of the diagnostic query.
+ * The message, code and tag are read from the `#set!` directives of the pattern.
+ */
+function collectQueryProblems(
+  diagnosticQuery: ts.Query,
+  node: ts.Node,
+): Problem[] {
+  return matchQuery(diagnosticQuery, node).flatMap((match) => {
+    const { message, code, tag } = match.setProperties ?? {};
+    return match.captures
+      .filter(
+        (capture) =>
+          capture.name === "diagnostic" ||
+          capture.name.startsWith("diagnostic."),
+      )
+      .map((capture): Problem => {
+        return {
+          range: toRange(getCaptureRange(capture)),
+          message:
+            message ??
+            `\`${getCaptureText(capture)}\` matched \`@${capture.name}\``,
+          severity: capture.name.slice("diagnostic.".length),
+          code: code ?? undefined,
+          tag: tag ?? undefined,
+        };
+      });
+  });
+}
+
+/**
+ * Checks the node types and field names used in a query document
+ * against the language the query is written for.
+ * Unlike compiling the query, this reports all unknown names at once.
+ */
+async function getQueryProblems(
+  uri: string,
+  lang: string,
+  folder?: string,
+): Promise<Problem[]> {
+  const { tree } = await getDocument(uri);
+  const language = await getTsLanguage(lang, folder);
+  if (language === undefined) {
+    return [];
+  }
+  const problems: Problem[] = [];
+  const report = (node: ts.Node, message: string) => {
+    problems.push({ range: toRange(node), message, severity: "error" });
+  };
+  const visit = (node: ts.Node) => {
+    const name = node.childForFieldName("name");
+    if (node.type === "named_node" && name?.type === "identifier") {
+      if (
+        !["_", "ERROR", "MISSING"].includes(name.text) &&
+        language.idForNodeType(name.text, true) === null
+      ) {
+        report(name, `Unknown node type \`${name.text}\``);
+      }
+    } else if (node.type === "anonymous_node" && name?.type === "identifier") {
+      let value = name.text.slice(1, -1);
+      try {
+        value = JSON.parse(name.text);
+      } catch {
+        // keep the raw text for escape sequences JSON doesn't know
+      }
+      if (language.idForNodeType(value, false) === null) {
+        report(name, `Unknown anonymous node \`${name.text}\``);
+      }
+    } else if (node.type === "field_definition" && name !== null) {
+      if (language.fieldIdForName(name.text) === null) {
+        report(name, `Unknown field \`${name.text}\``);
+      }
+    } else if (node.type === "negated_field") {
+      const field = node.namedChild(0);
+      if (field !== null && language.fieldIdForName(field.text) === null) {
+        report(field, `Unknown field \`${field.text}\``);
+      }
+    }
+    node.namedChildren.forEach(visit);
+  };
+  visit(tree.rootNode);
+  return problems;
+}
+
+/**
+ * Computes the indentation of the given lines with the indents query.
+ * Lines, whose indentation should be kept, are left out.
+ */
+async function getIndents(
+  uri: string,
+  rows: number[],
+  tabSize: number,
+  skipEmptyLines: boolean,
+): Promise<LineIndent[]> {
+  const { document, language, tree } = await getDocument(uri);
+  if (language.indentQuery === undefined) {
+    return [];
+  }
+  const context: IndentContext = {
+    lines: document.text.split(/\r?\n/),
+    root: tree.rootNode,
+    indents: collectIndents(language.indentQuery, tree.rootNode),
+    tabSize,
+    changed: new Map(),
+  };
+  const indents: LineIndent[] = [];
+  for (const row of rows) {
+    if (skipEmptyLines && context.lines[row].trim() === "") continue;
+    const indent = computeIndent(context, row);
+    if (indent === undefined) continue;
+    context.changed.set(row, indent);
+    indents.push({ row, indent });
+  }
+  return indents;
+}
+
+/**
+ * Returns the names of the text objects, that the textobjects query of the document can produce.
+ */
+async function getTextObjectNames(uri: string): Promise<string[]> {
+  const { language } = await getDocument(uri);
+  if (language.textobjectsQuery === undefined) {
+    return [];
+  }
+  return collectTextObjectNames(language.textobjectsQuery);
+}
+
+/**
+ * Returns the text objects of the document with the given name.
+ */
+async function getTextObjects(
+  uri: string,
+  name: string,
+): Promise<TextObject[]> {
+  const { language, tree } = await getDocument(uri);
+  if (language.textobjectsQuery === undefined) {
+    return [];
+  }
+  return collectTextObjects(language.textobjectsQuery, tree.rootNode).filter(
+    (textObject) => textObject.name === name,
+  );
+}
+
+/**
+ * Returns the start of the closest named node, that starts before each of the ranges and contains it.
+ */
+async function getParentStarts(
+  uri: string,
+  ranges: Range[],
+): Promise<(ts.Point | null)[]> {
+  const { tree } = await getDocument(uri);
+  return ranges.map(({ start, end }) => {
+    let node = tree.rootNode.namedDescendantForPosition(start, end);
+    while (
+      node !== null &&
+      (!node.isNamed || comparePoints(node.startPosition, start) >= 0)
+    ) {
+      node = node.parent;
+    }
+    return node?.startPosition ?? null;
+  });
+}
+
+/**
+ * Returns the delimiters of the rainbow query grouped by their containers.
+ */
+async function getDelimiters(uri: string): Promise<DelimiterGroup[]> {
+  const { language, tree } = await getDocument(uri);
+  if (language.rainbowQuery === undefined) {
+    return [];
+  }
+  return collectDelimiters(language.rainbowQuery, tree.rootNode);
+}
+
+/**
+ * Returns the whole syntax tree of the document for the syntax tree view.
+ */
+async function getSyntaxTree(uri: string): Promise<SyntaxNode> {
+  const { tree } = await getDocument(uri);
+  const toSyntaxNode = (
+    node: ts.Node,
+    fieldName: string | null,
+  ): SyntaxNode => {
+    const children: SyntaxNode[] = [];
+    for (let i = 0; i < node.childCount; i++) {
+      const child = node.child(i);
+      if (child === null) continue;
+      children.push(toSyntaxNode(child, node.fieldNameForChild(i)));
+    }
+    return {
+      id: node.id,
+      type: node.type,
+      fieldName,
+      isNamed: node.isNamed,
+      isError: node.isError,
+      isMissing: node.isMissing,
+      range: toRange(node),
+      children,
+    };
+  };
+  return toSyntaxNode(tree.rootNode, null);
+}
+
+/**
+ * Matches the query against the document and returns all captures, ordered by their position.
+ */
+async function getCaptures(uri: string, source: string): Promise<Capture[]> {
+  const { language, tree } = await getDocument(uri);
+  if (language.parser.language === null) {
+    return [];
+  }
+  const query = new ts.Query(language.parser.language, source);
+  try {
+    return matchQuery(query, tree.rootNode)
+      .flatMap((match) => match.captures)
+      .sort(
+        (a, b) => getCaptureRange(a).startIndex - getCaptureRange(b).startIndex,
+      )
+      .map((capture) => {
+        return {
+          name: capture.name,
+          patternIndex: capture.patternIndex,
+          range: toRange(getCaptureRange(capture)),
+        };
+      });
+  } finally {
+    query.delete();
+  }
+}
+
+/**
+ * Matches the textobjects query against the given node and collects the text objects,
+ * following the conventions of nvim-treesitter-textobjects.
+ * Multiple nodes of the same capture in a match form a single text object,
+ * and `(#make-range! "name" @start @end)` creates one from the start of a capture to the end of another.
+ * The text objects are ordered by their position in the document.
+ */
+function collectTextObjects(query: ts.Query, node: ts.Node): TextObject[] {
+  const textObjects: TextObject[] = [];
+  for (const match of matchQuery(query, node)) {
+    const byName = new Map<string, TextObject>();
+    for (const capture of match.captures) {
+      // captures starting with an underscore are only helpers
+      if (capture.name.startsWith("_")) continue;
+      const range = getCaptureRange(capture);
+      const textObject = byName.get(capture.name);
+      byName.set(capture.name, {
+        name: capture.name,
+        parent: textObject?.parent ?? capture.node.parent?.id,
+        range:
+          textObject !== undefined
+            ? joinRanges(textObject.range, range)
+            : copyRange(range),
+      });
+    }
+    for (const { operator, operands } of query.predicates[match.patternIndex]) {
+      if (operator !== "make-range!") continue;
+      const [name, start, end] = operands;
+      if (
+        name?.type !== "string" ||
+        start?.type !== "capture" ||
+        end?.type !== "capture"
+      ) {
+        continue;
+      }
+      const first = match.captures.find(
+        (capture) => capture.name === start.name,
+      );
+      const last = match.captures.find((capture) => capture.name === end.name);
+      // either of them might be optional
+      const from = first ?? last;
+      const to = last ?? first;
+      if (from === undefined || to === undefined) continue;
+      byName.set(name.value, {
+        name: name.value,
+        parent: from.node.parent?.id,
+        range: joinRanges(getCaptureRange(from), getCaptureRange(to)),
+      });
+    }
+    textObjects.push(...byName.values());
+  }
+  return textObjects.sort(
+    (a, b) =>
+      a.range.startIndex - b.range.startIndex ||
+      b.range.endIndex - a.range.endIndex,
+  );
+}
+
+/**
+ * Returns the names of the text objects, that the textobjects query can produce.
+ */
+function collectTextObjectNames(query: ts.Query): string[] {
+  const names = query.captureNames.filter((name) => !name.startsWith("_"));
+  for (const predicates of query.predicates) {
+    for (const { operator, operands } of predicates) {
+      const [name] = operands;
+      if (operator === "make-range!" && name?.type === "string") {
+        names.push(name.value);
+      }
+    }
+  }
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Copies the positions of a node, which are invalid after its tree is deleted.
+ */
+function copyRange(range: ts.Range): ts.Range {
+  return {
+    startIndex: range.startIndex,
+    startPosition: range.startPosition,
+    endIndex: range.endIndex,
+    endPosition: range.endPosition,
+  };
+}
+
+function joinRanges(a: ts.Range, b: ts.Range): ts.Range {
+  const start = a.startIndex <= b.startIndex ? a : b;
+  const end = a.endIndex >= b.endIndex ? a : b;
+  return {
+    startIndex: start.startIndex,
+    startPosition: start.startPosition,
+    endIndex: end.endIndex,
+    endPosition: end.endPosition,
+  };
+}
+
+/**
+ * Matches the rainbow query against the given node and groups the `@delimiter` captures
+ * by their `@container`, following the conventions of rainbow-delimiters.nvim.
+ * Since only nodes of the tree are matched, brackets in strings and comments are ignored.
+ * The groups are ordered by the position of their containers.
+ */
+function collectDelimiters(query: ts.Query, node: ts.Node): DelimiterGroup[] {
+  const groups = new Map<number, DelimiterGroup>();
+  for (const match of matchQuery(query, node)) {
+    const container = match.captures.find(
+      (capture) => capture.name === "container",
+    )?.node;
+    if (container === undefined) continue;
+    const group = groups.get(container.id) ?? {
+      container: copyRange(container),
+      delimiters: [],
+      depth: 0,
+    };
+    for (const capture of match.captures) {
+      if (capture.name !== "delimiter") continue;
+      if (
+        group.delimiters.some(
+          (delimiter) =>
+            delimiter.startIndex === capture.node.startIndex &&
+            delimiter.endIndex === capture.node.endIndex,
+        )
+      )
+        continue;
+      group.delimiters.push(copyRange(capture.node));
+    }
+    groups.set(container.id, group);
+  }
+  const sorted = [...groups.values()]
+    .filter((group) => group.delimiters.length > 0)
+    .sort(
+      (a, b) =>
+        a.container.startIndex - b.container.startIndex ||
+        b.container.endIndex - a.container.endIndex,
+    );
+  // the containers, that enclose the current one
+  const stack: DelimiterGroup[] = [];
+  for (const group of sorted) {
+    group.delimiters.sort((a, b) => a.startIndex - b.startIndex);
+    while (
+      stack.length > 0 &&
+      stack[stack.length - 1].container.endIndex <= group.container.startIndex
+    ) {
+      stack.pop();
+    }
+    group.depth = stack.length;
+    stack.push(group);
+  }
+  return sorted;
+}
+
+function toRange(range: PointRange): Range {
+  return { start: range.startPosition, end: range.endPosition };
+}
+
+function comparePoints(a: ts.Point, b: ts.Point): number {
+  return a.row === b.row ? a.column - b.column : a.row - b.row;
+}
+
+function isEqualRange(a: Range, b: Range): boolean {
+  return (
+    comparePoints(a.start, b.start) === 0 && comparePoints(a.end, b.end) === 0
+  );
+}
+
+function containsRange(range: Range, other: Range): boolean {
+  return (
+    comparePoints(range.start, other.start) <= 0 &&
+    comparePoints(other.end, range.end) <= 0
+  );
+}
+
+function intersectsRange(a: Range, b: Range): boolean {
+  return (
+    comparePoints(a.start, b.end) <= 0 && comparePoints(b.start, a.end) <= 0
+  );
+}
+
+/**
+ * Groups the lines into ranges of consecutive lines, ignoring lines past the end of the document.
+ */
+function toLineRanges(lines: Set<number>, lineCount: number): number[][] {
+  const ranges: number[][] = [];
+  const sorted = [...lines]
+    .filter((line) => line < lineCount)
+    .sort((a, b) => a - b);
+  for (const line of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last !== undefined && last[1] + 1 === line) {
+      last[1] = line;
+    } else {
+      ranges.push([line, line]);
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Semantic tokens cannot span multiple lines,
+ * so if the range doesn't end in the same line,
+ * one token for each line is created.
+ */
+function splitToken(token: Token): Token[] {
+  const start = token.range.start;
+  const end = token.range.end;
+  if (start.row != end.row) {
+    // 100_0000 is chosen as the arbitrary length, since the actual line length is unknown.
+    // Choosing a big number works, while `Number.MAX_VALUE` seems to confuse VSCode.
+    const maxLineLength = 100_000;
+    const lineDiff = end.row - start.row;
+    if (lineDiff < 0) {
+      throw new RangeError("Invalid token range");
+    }
+    const tokens: Token[] = [];
+    // token for the first line, beginning at the start char
+    tokens.push({
+      range: { start, end: { row: start.row, column: maxLineLength } },
+      type: token.type,
+      modifiers: token.modifiers,
+    });
+    // tokens for intermediate lines, spanning from 0 to maxLineLength
+    for (let i = 1; i < lineDiff; i++) {
+      const middleToken: Token = {
+        range: {
+          start: { row: start.row + i, column: 0 },
+          end: { row: start.row + i, column: maxLineLength },
+        },
+        type: token.type,
+        modifiers: token.modifiers,
+      };
+      tokens.push(middleToken);
+    }
+    // token for the last line, ending at the end char
+    tokens.push({
+      range: { start: { row: end.row, column: 0 }, end },
+      type: token.type,
+      modifiers: token.modifiers,
+    });
+    return tokens;
+  } else {
+    return [token];
+  }
+}